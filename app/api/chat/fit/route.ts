@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeJobFit, jobDescriptionLabel } from '@/lib/chat/job-fit';
+import { getChatRateLimiters, loadChatLimits } from '@/lib/chat/limits';
+import { createStoredMessage, getSessionStore } from '@/lib/chat/session-store';
+import { getClientIp, rateLimitedResponse } from '@/lib/api/rate-limit';
+import { FitRequestSchema, FitResponseSchema } from '@/lib/api/schemas';
+import { parseJsonBody, validatedJson } from '@/lib/api/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Match a pasted job description against the portfolio: skills it shows
+ * with evidence, gaps and a short pitch
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Shares the chat budget so the fit flow can't be used to get around it
+    const rateLimiters = getChatRateLimiters();
+    const ipLimit = await rateLimiters.ip.consume(`ip:${getClientIp(request)}`);
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse(ipLimit);
+    }
+
+    const parsed = await parseJsonBody(request, FitRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const { jobDescription, sessionId } = parsed.data;
+    const { maxJobDescriptionLength } = loadChatLimits();
+    if (jobDescription.length > maxJobDescriptionLength) {
+      return NextResponse.json(
+        { error: `Job description is too long (max ${maxJobDescriptionLength} characters)` },
+        { status: 413 }
+      );
+    }
+
+    if (sessionId) {
+      const sessionLimit = await rateLimiters.session.consume(`session:${sessionId}`);
+      if (!sessionLimit.allowed) {
+        return rateLimitedResponse(sessionLimit);
+      }
+    }
+
+    const report = analyzeJobFit(jobDescription);
+
+    // Saved like a chat turn so it survives a reload; the pitch is what later questions see as history
+    if (sessionId) {
+      await getSessionStore()
+        .append(sessionId, [
+          createStoredMessage({ role: 'user', content: jobDescriptionLabel(jobDescription) }),
+          createStoredMessage({ role: 'assistant', content: report.pitch, fit: report }),
+        ])
+        .catch((error) => console.error('Could not save job fit turn:', error));
+    }
+
+    return validatedJson(FitResponseSchema, {
+      ...report,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Fit analysis error:', error);
+    return NextResponse.json(
+      {
+        error: 'An error occurred while analyzing the job description',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
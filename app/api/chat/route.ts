@@ -1,30 +1,115 @@
+import crypto from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { RAGService } from '@/lib/rag/rag-service';
+import { encodeChatEvent } from '@/lib/chat-stream';
+import { createStoredMessage, getSessionStore } from '@/lib/chat/session-store';
+import { getChatRateLimiters, loadChatLimits } from '@/lib/chat/limits';
+import { getClientIp, rateLimitedResponse } from '@/lib/api/rate-limit';
+import { ChatRequestSchema, ChatResponseSchema } from '@/lib/api/schemas';
+import { parseJsonBody, validatedJson } from '@/lib/api/validation';
+import type { QueryOptions } from '@/lib/rag/types';
+import type { ChatHistoryMessage, ChatSource, ChatStreamEvent } from '@/types/chat';
+
+type SaveTurn = (answer: string, sources: ChatSource[]) => Promise<unknown>;
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, conversationHistory } = await request.json();
+    // Every call costs an embedding and a completion, so throttle before doing any work
+    const rateLimiters = getChatRateLimiters();
+    const ipLimit = await rateLimiters.ip.consume(`ip:${getClientIp(request)}`);
+    if (!ipLimit.allowed) {
+      return rateLimitedResponse(ipLimit);
+    }
+
+    const parsed = await parseJsonBody(request, ChatRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
 
-    if (!message || typeof message !== 'string') {
+    const { message, conversationHistory, stream, sessionId } = parsed.data;
+    const limits = loadChatLimits();
+
+    if (message.length > limits.maxMessageLength) {
       return NextResponse.json(
-        { error: 'Message is required' },
-        { status: 400 }
+        { error: `Message is too long (max ${limits.maxMessageLength} characters)` },
+        { status: 413 }
       );
     }
 
+    if (conversationHistory) {
+      const historyChars = conversationHistory.reduce((sum, msg) => sum + msg.content.length, 0);
+      if (conversationHistory.length > limits.maxHistoryMessages || historyChars > limits.maxHistoryChars) {
+        return NextResponse.json(
+          {
+            error: `Conversation history is too large (max ${limits.maxHistoryMessages} messages and ${limits.maxHistoryChars} characters)`,
+          },
+          { status: 413 }
+        );
+      }
+    }
+
+    if (sessionId) {
+      const sessionLimit = await rateLimiters.session.consume(`session:${sessionId}`);
+      if (!sessionLimit.allowed) {
+        return rateLimitedResponse(sessionLimit);
+      }
+    }
+
+    // With a session the server owns the history; otherwise trust what the client sent
+    const sessionStore = getSessionStore();
+    const stored = sessionId
+      ? await sessionStore.get(sessionId).catch((error) => {
+          console.error('Could not load chat session:', error);
+          return null;
+        })
+      : null;
+    const history: ChatHistoryMessage[] = stored
+      ? stored.messages.map(({ role, content }) => ({ role, content }))
+      : conversationHistory ?? [];
+
+    const saveTurn: SaveTurn | null = sessionId
+      ? (answer, sources) =>
+          sessionStore
+            .append(sessionId, [
+              createStoredMessage({ role: 'user', content: message }),
+              createStoredMessage({ role: 'assistant', content: answer, sources }),
+            ])
+            // The answer was already given; losing it from the session must not turn it into an error
+            .catch((error) => console.error('Could not save chat turn:', error))
+      : null;
+
     // Initialize RAG service
     const ragService = RAGService.getInstance();
+    // Names the request's trace; sent back so a response can be matched to it
+    const requestId = crypto.randomUUID();
+
+    // Stream the answer as Server-Sent Events when the client asks for it
+    const wantsStream = stream === true || request.headers.get('accept')?.includes('text/event-stream');
+    if (wantsStream) {
+      return streamResponse(ragService, message, history, saveTurn, { requestId, sessionId });
+    }
 
     // Get response from RAG pipeline
-    const response = await ragService.query(message, conversationHistory || []);
+    const { answer, sources, cached, refused } = await ragService.query(message, history, { requestId, sessionId });
+    // A refused turn stays out of the session so it isn't sent back as history
+    if (!refused) {
+      await saveTurn?.(answer, sources);
+    }
 
-    return NextResponse.json({
-      response,
-      timestamp: new Date().toISOString(),
-    });
+    return validatedJson(
+      ChatResponseSchema,
+      {
+        response: answer,
+        sources,
+        sessionId,
+        ...(cached ? { cached } : {}),
+        timestamp: new Date().toISOString(),
+      },
+      { headers: { 'X-Request-Id': requestId } }
+    );
   } catch (error) {
     console.error('Chat API error:', error);
     
@@ -49,6 +134,70 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function streamResponse(
+  ragService: RAGService,
+  message: string,
+  conversationHistory: ChatHistoryMessage[],
+  saveTurn: SaveTurn | null,
+  options: QueryOptions & { requestId: string }
+) {
+  const encoder = new TextEncoder();
+  // Iterated by hand to get the generator's return value: whether the answer was a refusal
+  const events = ragService.queryStream(message, conversationHistory, options);
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // A cancelled controller throws on enqueue and close
+      const send = (event: ChatStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeChatEvent(event)));
+      };
+
+      try {
+        let answer = '';
+        let sources: ChatSource[] = [];
+
+        let next = await events.next();
+        while (!next.done && !cancelled) {
+          const event = next.value;
+          if (event.type === 'token') answer += event.content;
+          if (event.type === 'sources') sources = event.sources;
+          send(event);
+          next = await events.next();
+        }
+
+        // A half-finished answer isn't worth keeping
+        if (cancelled) return;
+        const refused = next.done ? next.value?.refused : undefined;
+        if (!refused) {
+          await saveTurn?.(answer, sources);
+        }
+        send({ type: 'done', timestamp: new Date().toISOString() });
+      } catch (error) {
+        console.error('Chat stream error:', error);
+        send({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+
+    // The client went away: stop generating so no more tokens are paid for
+    async cancel() {
+      cancelled = true;
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Request-Id': options.requestId,
+    },
+  });
+}
+
 export async function GET() {
   return NextResponse.json({
     status: 'ok',
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionStore } from '@/lib/chat/session-store';
+import { ChatSessionResponseSchema, SessionIdSchema } from '@/lib/api/schemas';
+import { parseWithSchema, validatedJson } from '@/lib/api/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/chat/sessions/:id
+ * Returns the stored conversation so the chat UI can restore it after a reload
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const sessionId = parseWithSchema(SessionIdSchema, params.id, 'Invalid session id');
+  if (!sessionId.success) {
+    return sessionId.response;
+  }
+
+  try {
+    const session = await getSessionStore().get(sessionId.data);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    return validatedJson(ChatSessionResponseSchema, {
+      sessionId: session.id,
+      messages: session.messages,
+      updatedAt: session.updatedAt,
+    });
+  } catch (error) {
+    console.error('Session API error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to load session',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/chat/sessions/:id
+ * Removes the server copy of a conversation ("Clear conversation" in the UI)
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const sessionId = parseWithSchema(SessionIdSchema, params.id, 'Invalid session id');
+  if (!sessionId.success) {
+    return sessionId.response;
+  }
+
+  try {
+    await getSessionStore().delete(sessionId.data);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Session API error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to delete session',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeIngestionRequest } from '@/lib/api/auth';
+import { ChatStatsQuerySchema, ChatStatsResponseSchema } from '@/lib/api/schemas';
+import { parseWithSchema, validatedJson } from '@/lib/api/validation';
+import { getChatTraceSink, summarizeTraces } from '@/lib/rag/tracing';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/chat/stats?hours=24
+ * Requests, latency, tokens, spend and retrieval health from the chat
+ * traces of the last `hours`. Uses the admin credentials of POST /api/ingest
+ * (HMAC over an empty body).
+ */
+export async function GET(request: NextRequest) {
+  const auth = authorizeIngestionRequest(request.headers, '');
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const query = parseWithSchema(
+    ChatStatsQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams),
+    'Invalid query parameters'
+  );
+  if (!query.success) {
+    return query.response;
+  }
+
+  const sink = getChatTraceSink();
+  if (!sink) {
+    return NextResponse.json({ error: 'Chat tracing is disabled: CHAT_TRACE_SINK is off' }, { status: 404 });
+  }
+
+  try {
+    const until = new Date();
+    const since = new Date(until.getTime() - query.data.hours * 60 * 60 * 1000);
+    const traces = await sink.read(since);
+
+    return validatedJson(ChatStatsResponseSchema, summarizeTraces(traces, since, until));
+  } catch (error) {
+    console.error('Chat stats API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to summarize chat traces',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
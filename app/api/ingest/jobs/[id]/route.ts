@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeIngestionRequest } from '@/lib/api/auth';
+import { IngestionJobIdSchema, IngestionJobSchema } from '@/lib/api/schemas';
+import { parseWithSchema, validatedJson } from '@/lib/api/validation';
+import { getIngestionJobQueue } from '@/lib/rag/ingestion-jobs';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/ingest/jobs/:id
+ * Status of an ingestion job with per-source progress, counts and errors.
+ * Uses the same credentials as POST /api/ingest (HMAC over an empty body).
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = authorizeIngestionRequest(request.headers, '');
+  if (!auth.authorized) {
+    return auth.response;
+  }
+
+  const jobId = parseWithSchema(IngestionJobIdSchema, params.id, 'Invalid job id');
+  if (!jobId.success) {
+    return jobId.response;
+  }
+
+  try {
+    const job = await getIngestionJobQueue().get(jobId.data);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    // A job file edited or cut short on disk fails here instead of reaching the client
+    return validatedJson(IngestionJobSchema, job);
+  } catch (error) {
+    console.error('Ingestion job API error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load ingestion job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
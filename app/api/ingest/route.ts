@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DocumentProcessor } from '@/lib/rag/document-processor';
-import { RAGService } from '@/lib/rag/rag-service';
-import { contentData } from '@/lib/data';
+import { getIngestAuditLog } from '@/lib/api/audit-log';
+import { authorizeIngestionRequest } from '@/lib/api/auth';
+import { getClientIp } from '@/lib/api/rate-limit';
+import { IngestJobAcceptedSchema, IngestRequestSchema } from '@/lib/api/schemas';
+import { parseJsonText, validatedJson } from '@/lib/api/validation';
+import { getIngestionJobQueue, isServerlessRuntime } from '@/lib/rag/ingestion-jobs';
+import { resolveIngestionSources, sumStages } from '@/lib/rag/ingestion-pipeline';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -9,46 +13,79 @@ export const dynamic = 'force-dynamic';
 /**
  * API endpoint to trigger document ingestion
  * This is useful for updating the vector store without running a script
- * 
+ *
  * POST /api/ingest
- * Body: { secret: 'your-secret-key' }
+ * Headers: Authorization: Bearer <INGESTION_SECRET>
+ *      or: X-Timestamp + X-Signature (HMAC-SHA256 of "<timestamp>.<body>")
+ * Body (optional): { source: 'website' | 'documents' | 'files' | 'all' }
+ *
+ * Ingestion runs as a background job; the response points at
+ * GET /api/ingest/jobs/:id for progress.
  */
 export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    
-    // Simple authentication - you should use a proper auth mechanism in production
-    const expectedSecret = process.env.INGESTION_SECRET || 'change-me-in-production';
-    if (body.secret !== expectedSecret) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+  const auditLog = getIngestAuditLog();
+  const client = {
+    trigger: 'api' as const,
+    ip: getClientIp(request),
+    userAgent: request.headers.get('user-agent') ?? undefined,
+  };
 
-    const processor = new DocumentProcessor();
-    const ragService = RAGService.getInstance();
+  // The signature covers the raw bytes, so read them before parsing
+  const rawBody = await request.text();
+  const auth = authorizeIngestionRequest(request.headers, rawBody);
+  if (!auth.authorized) {
+    await auditLog.record({ ...client, outcome: 'unauthorized', error: auth.reason });
+    return auth.response;
+  }
 
-    // Process structured data from website
-    console.log('Processing website data...');
-    const structuredDocs = processor.processStructuredData(contentData, 'website');
+  const parsed = parseJsonText(rawBody, IngestRequestSchema);
+  if (!parsed.success) {
+    return parsed.response;
+  }
 
-    // Ingest into vector store
-    console.log(`Ingesting ${structuredDocs.length} documents...`);
-    await ragService.ingestDocuments(structuredDocs);
+  if (isServerlessRuntime()) {
+    return NextResponse.json(
+      {
+        error: 'Background ingestion needs a long-running server',
+        details: 'This host stops work once the response is sent. Run `npm run ingest-docs` from CI instead.',
+      },
+      { status: 501 }
+    );
+  }
 
-    return NextResponse.json({
-      success: true,
-      message: 'Documents ingested successfully',
-      documentsProcessed: structuredDocs.length,
-    });
+  try {
+    const job = await getIngestionJobQueue().enqueue(
+      resolveIngestionSources(parsed.data.source),
+      (finished) => {
+        const { documents, upserted, skipped, deleted, failed } = sumStages(finished.stages);
+        return auditLog.record({
+          ...client,
+          outcome: finished.status === 'completed' ? 'success' : finished.status === 'partial' ? 'partial' : 'failed',
+          authMethod: auth.method,
+          jobId: finished.id,
+          durationMs: Date.parse(finished.finishedAt ?? '') - Date.parse(finished.startedAt ?? ''),
+          documents,
+          upserted,
+          skipped,
+          deleted,
+          failed,
+          error: finished.error ?? finished.stages.flatMap((stage) => stage.errors)[0],
+        });
+      }
+    );
 
+    const statusUrl = `/api/ingest/jobs/${job.id}`;
+    return validatedJson(
+      IngestJobAcceptedSchema,
+      { jobId: job.id, status: job.status, statusUrl },
+      { status: 202, headers: { Location: statusUrl } }
+    );
   } catch (error) {
     console.error('Ingestion API error:', error);
-    
+
     return NextResponse.json(
-      { 
-        error: 'Failed to ingest documents',
+      {
+        error: 'Failed to start ingestion',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
@@ -59,7 +96,6 @@ export async function POST(request: NextRequest) {
 export async function GET() {
   return NextResponse.json({
     message: 'Document ingestion API',
-    usage: 'POST /api/ingest with { secret: "your-secret" } in body',
+    usage: 'POST /api/ingest with an "Authorization: Bearer <INGESTION_SECRET>" header (or X-Timestamp and X-Signature headers for HMAC-signed requests) and an optional { "source": "website" | "documents" | "files" | "all" } body, then poll GET /api/ingest/jobs/:id',
   });
 }
-
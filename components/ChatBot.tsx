@@ -1,23 +1,157 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { X, Maximize2, Minimize2, Trash2, ArrowUp, Sparkles } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { X, Maximize2, Minimize2, Trash2, ArrowUp, Sparkles, FileText, Briefcase, MessageSquare } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { ChatSessionResponseSchema, FitResponseSchema } from '@/lib/api/schemas';
+import { readChatStream } from '@/lib/chat-stream';
+import { jobDescriptionLabel } from '@/lib/chat/job-fit';
+import type { ApiErrorResponse } from '@/types/api';
+import type { ChatRequest, ChatSource } from '@/types/chat';
+import type { FitReport, FitRequest } from '@/types/fit';
 
 interface Message {
   id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
+  sources?: ChatSource[];
+  /** Set on answers to a pasted job description */
+  fit?: FitReport;
+}
+
+/** Questions go to the chat; a job description goes to the fit analysis */
+type InputMode = 'chat' | 'fit';
+
+const SESSION_STORAGE_KEY = 'chatbot-session-id';
+const GENERIC_ERROR_MESSAGE = 'Sorry, I encountered an error. Please try again.';
+
+/**
+ * A failed request whose message is fit to show in the chat as is
+ */
+class ChatRequestError extends Error {}
+
+function createSessionId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  // randomUUID needs a secure context; plain http on a LAN address doesn't have one
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * The error to show for a failed chat or fit request
+ */
+async function toRequestError(response: Response): Promise<Error> {
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After')) || 30;
+    return new ChatRequestError(
+      `You're sending messages a little too quickly. Please wait ${retryAfter} second${retryAfter === 1 ? '' : 's'} and try again.`
+    );
+  }
+
+  const data: Partial<ApiErrorResponse> = await response.json().catch(() => ({}));
+  if (response.status === 413 && data.error) {
+    return new ChatRequestError(`${data.error}. Please shorten it and try again.`);
+  }
+  return new Error(data.error || `Request failed with status ${response.status}`);
+}
+
+/**
+ * "page 2" or "pages 2–3" for citations of PDF chunks
+ */
+function pageLabel(source: ChatSource): string | null {
+  if (!source.pageStart) return null;
+  return source.pageEnd && source.pageEnd !== source.pageStart
+    ? `pages ${source.pageStart}–${source.pageEnd}`
+    : `page ${source.pageStart}`;
+}
+
+function SourceChip({ source, onClick }: { source: ChatSource; onClick: (source: ChatSource) => void }) {
+  const isLinked = Boolean(source.section && source.itemId);
+  const pages = pageLabel(source);
+  return (
+    <button
+      type="button"
+      onClick={() => onClick(source)}
+      disabled={!isLinked}
+      title={isLinked ? `Open ${source.title}` : `From ${source.source}${pages ? `, ${pages}` : ''}${source.headingPath ? ` (${source.headingPath})` : ''}`}
+      className="inline-flex items-center gap-1 max-w-full px-2 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-[11px] text-zinc-300 transition-colors enabled:hover:border-orange-500/50 enabled:hover:text-white disabled:cursor-default"
+    >
+      <FileText className="w-3 h-3 shrink-0" />
+      <span className="truncate">{pages ? `${source.title}, ${pages}` : source.title}</span>
+    </button>
+  );
+}
+
+/**
+ * Matched skills with the projects and roles that show them, then the gaps
+ */
+function FitReportView({ report, onSourceClick }: { report: FitReport; onSourceClick: (source: ChatSource) => void }) {
+  if (report.matched.length + report.gaps.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-3">
+      <div>
+        <div className="flex items-center justify-between text-xs text-zinc-400 mb-1">
+          <span>Required skills covered</span>
+          <span className="text-white font-medium">{Math.round(report.score * 100)}%</span>
+        </div>
+        <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+          <div className="h-full bg-gradient-to-r from-orange-500 to-purple-500" style={{ width: `${report.score * 100}%` }} />
+        </div>
+      </div>
+
+      {report.matched.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-zinc-400">Matched</p>
+          {report.matched.map((match) => (
+            <div key={match.skill}>
+              <p className="text-sm text-white">
+                {match.skill}
+                {!match.required && <span className="ml-2 text-[11px] text-zinc-500">nice to have</span>}
+              </p>
+              <div className="flex flex-wrap gap-1.5 mt-1">
+                {match.evidence.map((source, i) => (
+                  <SourceChip key={`${source.source}-${source.title}-${i}`} source={source} onClick={onSourceClick} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.gaps.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-zinc-400 mb-1">Not shown in the portfolio</p>
+          <div className="flex flex-wrap gap-1.5">
+            {report.gaps.map((gap) => (
+              <span
+                key={gap.skill}
+                className="px-2 py-1 rounded-full bg-zinc-900 border border-zinc-700 border-dashed text-[11px] text-zinc-400"
+              >
+                {gap.skill}{!gap.required && ' (nice to have)'}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
 }
 
 export function ChatBot() {
+  const router = useRouter();
   const [isOpen, setIsOpen] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isInputExpanded, setIsInputExpanded] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [mode, setMode] = useState<InputMode>('chat');
+  const [jobDescription, setJobDescription] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -29,6 +163,35 @@ export function ChatBot() {
     scrollToBottom();
   }, [messages]);
 
+  // Restore the previous conversation from the server after a reload
+  useEffect(() => {
+    const storedId = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!storedId) {
+      const newId = createSessionId();
+      window.localStorage.setItem(SESSION_STORAGE_KEY, newId);
+      setSessionId(newId);
+      return;
+    }
+
+    setSessionId(storedId);
+    fetch(`/api/chat/sessions/${storedId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((body: unknown) => {
+        if (body === null) return;
+        // An unexpected shape starts a fresh conversation rather than breaking the chat
+        const data = ChatSessionResponseSchema.parse(body);
+        setMessages(data.messages.map((msg) => ({
+          id: msg.id,
+          content: msg.content,
+          role: msg.role,
+          timestamp: new Date(msg.timestamp),
+          sources: msg.sources,
+          fit: msg.fit,
+        })));
+      })
+      .catch((error) => console.error('Error restoring chat session:', error));
+  }, []);
+
   const submitMessage = useCallback(async (messageToSend?: string) => {
     const messageContent = (messageToSend || input).trim();
     if (!messageContent || isLoading) return;
@@ -52,44 +215,128 @@ export function ChatBot() {
     setIsLoading(true);
 
     try {
+      const request: ChatRequest = {
+        message: messageContent,
+        // The server keeps the history for a session; only send it when there is none yet
+        ...(sessionId
+          ? { sessionId }
+          : { conversationHistory: messages.map(({ role, content }) => ({ role, content })) }),
+        stream: true,
+      };
+
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
         },
-        body: JSON.stringify({
-          message: messageContent,
-          conversationHistory: messages,
-        }),
+        body: JSON.stringify(request),
       });
 
-      const data = await response.json();
-
-      if (data.error) {
-        throw new Error(data.error);
+      if (!response.ok || !response.body) {
+        throw await toRequestError(response);
       }
 
-      const assistantMessage: Message = {
+      // Render the assistant message as soon as the first token arrives,
+      // then append every following token to it
+      const assistantId = (Date.now() + 1).toString();
+      let hasStarted = false;
+      let sources: ChatSource[] = [];
+
+      for await (const event of readChatStream(response.body)) {
+        if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+        if (event.type === 'sources') {
+          sources = event.sources;
+          // Sources sent again after a tool round replace the ones already shown
+          if (hasStarted) {
+            setMessages(prev => prev.map(msg =>
+              msg.id === assistantId ? { ...msg, sources: event.sources } : msg
+            ));
+          }
+          continue;
+        }
+        if (event.type !== 'token') continue;
+
+        if (!hasStarted) {
+          hasStarted = true;
+          const assistantMessage: Message = {
+            id: assistantId,
+            content: event.content,
+            role: 'assistant',
+            timestamp: new Date(),
+            sources,
+          };
+          setMessages(prev => [...prev, assistantMessage]);
+        } else {
+          setMessages(prev => prev.map(msg =>
+            msg.id === assistantId ? { ...msg, content: msg.content + event.content } : msg
+          ));
+        }
+      }
+    } catch (error) {
+      console.error('Error:', error);
+      const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
-        content: data.response,
+        content: error instanceof ChatRequestError ? error.message : GENERIC_ERROR_MESSAGE,
         role: 'assistant',
         timestamp: new Date(),
       };
+      setMessages(prev => [...prev, errorMessage]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [input, isLoading, isOpen, messages, sessionId]);
+
+  const submitJobDescription = async () => {
+    const text = jobDescription.trim();
+    if (!text || isLoading) return;
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      content: jobDescriptionLabel(text),
+      role: 'user',
+      timestamp: new Date(),
+    };
 
-      setMessages(prev => [...prev, assistantMessage]);
+    setMessages(prev => [...prev, userMessage]);
+    setIsLoading(true);
+
+    try {
+      const request: FitRequest = { jobDescription: text, ...(sessionId ? { sessionId } : {}) };
+      const response = await fetch('/api/chat/fit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        throw await toRequestError(response);
+      }
+
+      const report: FitReport = FitResponseSchema.parse(await response.json());
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        content: report.pitch,
+        role: 'assistant',
+        timestamp: new Date(),
+        fit: report,
+      }]);
+      setJobDescription('');
+      setMode('chat');
     } catch (error) {
       console.error('Error:', error);
-      const errorMessage: Message = {
+      setMessages(prev => [...prev, {
         id: (Date.now() + 1).toString(),
-        content: 'Sorry, I encountered an error. Please try again.',
+        content: error instanceof ChatRequestError ? error.message : GENERIC_ERROR_MESSAGE,
         role: 'assistant',
         timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      }]);
     } finally {
       setIsLoading(false);
     }
-  }, [input, isLoading, isOpen, messages]);
+  };
 
   // Keyboard shortcut: Cmd+I or Ctrl+I
   useEffect(() => {
@@ -136,8 +383,24 @@ export function ChatBot() {
     await submitMessage();
   };
 
+  const handleSourceClick = (source: ChatSource) => {
+    if (!source.section || !source.itemId) return;
+    // Reuse the home page's ?modal=section:id scheme so the DetailModal opens
+    setIsOpen(false);
+    router.push(`/?modal=${source.section}:${source.itemId}`, { scroll: false });
+  };
+
   const handleClear = () => {
     setMessages([]);
+
+    // Drop the server copy and start a fresh session
+    if (sessionId) {
+      fetch(`/api/chat/sessions/${sessionId}`, { method: 'DELETE' })
+        .catch((error) => console.error('Error deleting chat session:', error));
+    }
+    const newId = createSessionId();
+    window.localStorage.setItem(SESSION_STORAGE_KEY, newId);
+    setSessionId(newId);
   };
 
   const handleInputFocus = () => {
@@ -370,7 +633,7 @@ export function ChatBot() {
                       Hello! 👋
                     </h3>
                     <p className="text-zinc-400 mb-6 max-w-md">
-                      I'm an AI assistant that knows everything about Harishraj Udaya Bhaskar. 
+                      I&apos;m an AI assistant that knows everything about Harishraj Udaya Bhaskar. 
                       Ask me about his experience, projects, skills, or anything else!
                     </p>
                     <div className="grid grid-cols-1 gap-2 w-full max-w-md">
@@ -391,6 +654,13 @@ export function ChatBot() {
                           {suggestion}
                         </button>
                       ))}
+                      <button
+                        onClick={() => setMode('fit')}
+                        className="flex items-center gap-2 text-left px-4 py-3 bg-zinc-900/50 hover:bg-zinc-800 border border-zinc-800 border-dashed rounded-lg text-sm text-zinc-300 transition-colors"
+                      >
+                        <Briefcase className="w-4 h-4 text-orange-500 shrink-0" />
+                        Paste a job description to see how he fits
+                      </button>
                     </div>
                   </div>
                 ) : (
@@ -412,6 +682,20 @@ export function ChatBot() {
                           }`}
                         >
                           <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                          {message.fit && (
+                            <FitReportView report={message.fit} onSourceClick={handleSourceClick} />
+                          )}
+                          {message.sources && message.sources.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 mt-3">
+                              {message.sources.map((source, i) => (
+                                <SourceChip
+                                  key={`${source.source}-${source.title}-${i}`}
+                                  source={source}
+                                  onClick={handleSourceClick}
+                                />
+                              ))}
+                            </div>
+                          )}
                           <span className="text-xs opacity-60 mt-1 block">
                             {message.timestamp.toLocaleTimeString([], {
                               hour: '2-digit',
@@ -421,7 +705,7 @@ export function ChatBot() {
                         </div>
                       </motion.div>
                     ))}
-                    {isLoading && (
+                    {isLoading && messages[messages.length - 1]?.role === 'user' && (
                       <motion.div
                         initial={{ opacity: 0 }}
                         animate={{ opacity: 1 }}
@@ -443,30 +727,78 @@ export function ChatBot() {
 
               {/* Input Area */}
               <div className="p-4 border-t border-zinc-800 bg-[#0b0b0f]/95 backdrop-blur-sm">
-                <form onSubmit={handleSubmit} className="mb-3">
-                  <div className="relative flex items-center bg-zinc-900 rounded-lg border border-zinc-800 focus-within:border-orange-500/50 transition-colors">
-                    <input
-                      type="text"
-                      value={input}
-                      onChange={(e) => setInput(e.target.value)}
-                      placeholder="Ask a question..."
-                      disabled={isLoading}
-                      className="flex-1 bg-transparent border-none outline-none text-white placeholder:text-zinc-500 px-4 py-3 text-sm"
-                    />
-                    <button
-                      type="submit"
-                      disabled={!input.trim() || isLoading}
-                      className="mr-2 p-2 bg-orange-500 hover:bg-orange-600 text-white rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
-                      title="Send message"
-                    >
-                      <ArrowUp className="w-4 h-4" />
-                    </button>
-                  </div>
-                </form>
+                {mode === 'fit' ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitJobDescription();
+                    }}
+                    className="mb-3"
+                  >
+                    <div className="bg-zinc-900 rounded-lg border border-zinc-800 focus-within:border-orange-500/50 transition-colors">
+                      <textarea
+                        value={jobDescription}
+                        onChange={(e) => setJobDescription(e.target.value)}
+                        placeholder="Paste a job description and see which of its skills Harishraj's projects and experience cover..."
+                        disabled={isLoading}
+                        rows={6}
+                        autoFocus
+                        className="w-full resize-none bg-transparent border-none outline-none text-white placeholder:text-zinc-500 px-4 py-3 text-sm"
+                      />
+                      <div className="flex items-center justify-between px-2 pb-2">
+                        <button
+                          type="button"
+                          onClick={() => setMode('chat')}
+                          className="flex items-center gap-1.5 px-2 py-1.5 text-xs text-zinc-400 hover:text-white transition-colors"
+                        >
+                          <MessageSquare className="w-3.5 h-3.5" />
+                          Back to chat
+                        </button>
+                        <button
+                          type="submit"
+                          disabled={!jobDescription.trim() || isLoading}
+                          className="flex items-center gap-1.5 px-3 py-1.5 bg-orange-500 hover:bg-orange-600 text-white text-sm rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <Briefcase className="w-4 h-4" />
+                          Analyze fit
+                        </button>
+                      </div>
+                    </div>
+                  </form>
+                ) : (
+                  <form onSubmit={handleSubmit} className="mb-3">
+                    <div className="relative flex items-center bg-zinc-900 rounded-lg border border-zinc-800 focus-within:border-orange-500/50 transition-colors">
+                      <input
+                        type="text"
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        placeholder="Ask a question..."
+                        disabled={isLoading}
+                        className="flex-1 bg-transparent border-none outline-none text-white placeholder:text-zinc-500 px-4 py-3 text-sm"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setMode('fit')}
+                        className="mr-1 p-2 hover:bg-zinc-800 rounded-lg transition-colors"
+                        title="Paste a job description"
+                      >
+                        <Briefcase className="w-4 h-4 text-zinc-400" />
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={!input.trim() || isLoading}
+                        className="mr-2 p-2 bg-orange-500 hover:bg-orange-600 text-white rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Send message"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </form>
+                )}
                 
                 <div className="flex items-center justify-center gap-2 text-xs text-zinc-500">
                   <Sparkles className="w-3 h-3" />
-                  <span>Powered by AI • Answers from Harishraj's portfolio</span>
+                  <span>Powered by AI • Answers from Harishraj&apos;s portfolio</span>
                 </div>
                 <div className="flex items-center justify-center gap-1 mt-2 text-xs text-zinc-600">
                   <kbd className="px-2 py-1 bg-zinc-900 rounded border border-zinc-800">⌘</kbd>
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the Next.js server starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Refuse to boot a production server whose ingestion endpoint has no real secret
+  const { assertIngestionSecretConfigured } = await import('@/lib/api/auth');
+  assertIngestionSecretConfigured();
+}
@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+
+export type IngestAuditOutcome = 'success' | 'partial' | 'failed' | 'unauthorized';
+
+export interface IngestAuditEntry {
+  timestamp: string;
+  outcome: IngestAuditOutcome;
+  /** 'api' for POST /api/ingest, 'cli' for npm run ingest-docs */
+  trigger: 'api' | 'cli';
+  authMethod?: string;
+  /** Background job that ran the ingestion */
+  jobId?: string;
+  ip?: string;
+  userAgent?: string;
+  durationMs?: number;
+  documents?: number;
+  upserted?: number;
+  skipped?: number;
+  deleted?: number;
+  failed?: number;
+  error?: string;
+}
+
+/**
+ * Append-only JSONL record of ingestion runs and rejected ingestion requests
+ */
+export class IngestAuditLog {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async record(entry: Omit<IngestAuditEntry, 'timestamp'>): Promise<void> {
+    const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry });
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, `${line}\n`);
+    } catch (error) {
+      // Losing an audit line must not fail the ingestion itself, so at least keep it in the server log
+      console.error('Could not write ingest audit log entry:', line, error);
+    }
+  }
+}
+
+export function getIngestAuditLog(env: NodeJS.ProcessEnv = process.env): IngestAuditLog {
+  return new IngestAuditLog(path.resolve(process.cwd(), env.INGEST_AUDIT_LOG_PATH || '.rag/ingest-audit.jsonl'));
+}
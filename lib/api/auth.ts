@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import type { ApiErrorResponse } from '@/types/api';
+
+export type AuthMethod = 'bearer' | 'hmac';
+
+export type AuthResult =
+  | { authorized: true; method: AuthMethod }
+  | { authorized: false; reason: string };
+
+// Signed requests older (or newer) than this are rejected to stop replays
+const MAX_SIGNATURE_AGE_SECONDS = 5 * 60;
+
+// Secrets shorter than this are too easy to guess for an internet-facing endpoint
+const MIN_SECRET_LENGTH = 16;
+
+// Placeholder from older setup docs; treat it the same as no secret at all
+const PLACEHOLDER_SECRETS = ['change-me-in-production', 'your-secret-key'];
+
+/**
+ * The secret guarding /api/ingest, or null when none is usable
+ */
+export function getIngestionSecret(env: NodeJS.ProcessEnv = process.env): string | null {
+  const secret = env.INGESTION_SECRET?.trim();
+  if (!secret || PLACEHOLDER_SECRETS.includes(secret)) return null;
+  return secret;
+}
+
+/**
+ * Fail fast when a production server would start without a usable ingestion
+ * secret. Called from instrumentation.ts at startup.
+ */
+export function assertIngestionSecretConfigured(env: NodeJS.ProcessEnv = process.env): void {
+  if (env.NODE_ENV !== 'production') return;
+
+  const secret = getIngestionSecret(env);
+  if (!secret) {
+    throw new Error('INGESTION_SECRET must be set in production. Generate one with `openssl rand -hex 32`.');
+  }
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(`INGESTION_SECRET must be at least ${MIN_SECRET_LENGTH} characters long in production.`);
+  }
+}
+
+/**
+ * Compare two strings in constant time. Both sides are hashed first so
+ * neither the content nor the length of the secret leaks through timing.
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const digestA = crypto.createHash('sha256').update(a).digest();
+  const digestB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * HMAC-SHA256 signature of a request, as sent in the X-Signature header
+ */
+export function signRequest(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Authenticate an admin request with either
+ * - `Authorization: Bearer <secret>`, or
+ * - `X-Timestamp: <unix seconds>` plus `X-Signature: sha256=<hex>`, the
+ *   HMAC-SHA256 of `<timestamp>.<raw body>` keyed with the secret.
+ */
+export function verifyRequest(
+  headers: Headers,
+  body: string,
+  secret: string,
+  now: number = Date.now()
+): AuthResult {
+  const authorization = headers.get('authorization');
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return { authorized: false, reason: 'Unsupported Authorization scheme' };
+    }
+    return safeCompare(match[1].trim(), secret)
+      ? { authorized: true, method: 'bearer' }
+      : { authorized: false, reason: 'Invalid bearer token' };
+  }
+
+  const signature = headers.get('x-signature');
+  const timestamp = headers.get('x-timestamp');
+  if (signature && timestamp) {
+    const sentAt = Number(timestamp);
+    if (!Number.isFinite(sentAt) || Math.abs(now / 1000 - sentAt) > MAX_SIGNATURE_AGE_SECONDS) {
+      return { authorized: false, reason: 'Signature timestamp is missing or expired' };
+    }
+    return safeCompare(signature, signRequest(secret, timestamp, body))
+      ? { authorized: true, method: 'hmac' }
+      : { authorized: false, reason: 'Invalid signature' };
+  }
+
+  return { authorized: false, reason: 'Missing credentials' };
+}
+
+export type IngestionAuthorization =
+  | { authorized: true; method: AuthMethod }
+  | { authorized: false; reason: string; response: NextResponse<ApiErrorResponse> };
+
+/**
+ * Check a request to the ingestion endpoints against INGESTION_SECRET:
+ * 503 when no secret is configured, 401 when the credentials are wrong
+ */
+export function authorizeIngestionRequest(headers: Headers, body: string): IngestionAuthorization {
+  const secret = getIngestionSecret();
+  if (!secret) {
+    return {
+      authorized: false,
+      reason: 'INGESTION_SECRET is not configured',
+      response: NextResponse.json<ApiErrorResponse>(
+        { error: 'Ingestion is disabled: INGESTION_SECRET is not configured' },
+        { status: 503 }
+      ),
+    };
+  }
+
+  const auth = verifyRequest(headers, body, secret);
+  if (!auth.authorized) {
+    return {
+      ...auth,
+      response: NextResponse.json<ApiErrorResponse>(
+        { error: 'Unauthorized' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+      ),
+    };
+  }
+
+  return auth;
+}
@@ -0,0 +1,138 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { parseNumber } from '@/lib/rag/config';
+
+export interface BucketState {
+  tokens: number;
+  /** Epoch ms of the last refill */
+  updatedAt: number;
+}
+
+/**
+ * Backend that keeps bucket state. The in-memory store is per process; a
+ * shared backend (Redis, a database) can implement this for multi-instance deploys.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | null>;
+  set(key: string, state: BucketState, ttlMs: number): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+  private lastSweep = Date.now();
+
+  async get(key: string): Promise<BucketState | null> {
+    const entry = this.buckets.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+    return entry.state;
+  }
+
+  async set(key: string, state: BucketState, ttlMs: number): Promise<void> {
+    this.buckets.set(key, { state, expiresAt: Date.now() + ttlMs });
+    this.sweep();
+  }
+
+  // Drop idle buckets now and then so one-off visitors don't pile up
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < 60_000) return;
+
+    this.lastSweep = now;
+    this.buckets.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.buckets.delete(key);
+    });
+  }
+}
+
+export interface TokenBucketOptions {
+  /** Burst size */
+  capacity: number;
+  /** Sustained rate */
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the next request would be allowed; 0 when allowed */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Token bucket: every key starts with `capacity` tokens, each request takes
+ * one and tokens flow back at `refillPerMinute`
+ */
+export class TokenBucketRateLimiter {
+  private store: RateLimitStore;
+  private options: TokenBucketOptions;
+
+  constructor(store: RateLimitStore, options: TokenBucketOptions) {
+    this.store = store;
+    this.options = options;
+  }
+
+  async consume(key: string, cost: number = 1): Promise<RateLimitResult> {
+    const { capacity, refillPerMinute } = this.options;
+    const refillPerMs = refillPerMinute / 60_000;
+    const now = Date.now();
+
+    const previous = await this.store.get(key);
+    const tokens = previous
+      ? Math.min(capacity, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+      : capacity;
+
+    // A full bucket is indistinguishable from no bucket, so state can expire then
+    const ttlMs = Math.ceil(capacity / refillPerMs);
+
+    if (tokens < cost) {
+      await this.store.set(key, { tokens, updatedAt: now }, ttlMs);
+      return {
+        allowed: false,
+        remaining: Math.floor(tokens),
+        retryAfterSeconds: Math.max(1, Math.ceil((cost - tokens) / refillPerMs / 1000)),
+      };
+    }
+
+    await this.store.set(key, { tokens: tokens - cost, updatedAt: now }, ttlMs);
+    return { allowed: true, remaining: Math.floor(tokens - cost), retryAfterSeconds: 0 };
+  }
+}
+
+/**
+ * Client IP for rate limiting and audit logs. The platform-provided
+ * `request.ip` wins. Forwarding headers are only read when TRUSTED_PROXY_HOPS
+ * says how many proxies in front of the app append to X-Forwarded-For; it is
+ * then read that many hops from the right. Without a proxy every forwarding
+ * header comes from the client, which could change it on every request to
+ * get a fresh rate-limit bucket, so by default (0) all such requests share
+ * the 'unknown' bucket.
+ */
+export function getClientIp(request: NextRequest, env: NodeJS.ProcessEnv = process.env): string {
+  if (request.ip) return request.ip;
+
+  const trustedHops = parseNumber(env.TRUSTED_PROXY_HOPS, 0);
+  if (trustedHops <= 0) return 'unknown';
+
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length > 0) return hops[Math.max(0, hops.length - trustedHops)];
+
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * 429 with a Retry-After header for a request a limiter turned down
+ */
+export function rateLimitedResponse(result: RateLimitResult) {
+  return NextResponse.json(
+    {
+      error: 'Too many requests. Please wait a moment and try again.',
+      retryAfter: result.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(result.retryAfterSeconds) },
+    }
+  );
+}
@@ -0,0 +1,185 @@
+import { z } from 'zod';
+import type {
+  ChatHistoryMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatSessionResponse,
+  ChatSource,
+  ChatStreamEvent,
+  StoredChatMessage,
+} from '@/types/chat';
+import type { FitReport, FitRequest, FitResponse, FitSkill, FitSkillMatch } from '@/types/fit';
+import type {
+  IngestionJob,
+  IngestionStageProgress,
+  IngestJobAccepted,
+  IngestRequest,
+} from '@/types/ingest';
+import type { ChatStatsResponse, LatencySummary } from '@/types/trace';
+
+// Each schema is checked against the shared type it validates, so the
+// runtime checks and the TypeScript types used by ChatBot.tsx can't drift apart
+// Request schemas check what clients send; response schemas check what the
+// routes send (validatedJson) and what ChatBot.tsx receives. Schemas that are
+// only parts of others stay private to this file.
+
+export const SessionIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{8,64}$/, 'Must be 8-64 letters, digits, "-" or "_"');
+
+const ChatRoleSchema = z.enum(['user', 'assistant']);
+
+const ChatHistoryMessageSchema = z.object({
+  role: ChatRoleSchema,
+  content: z.string(),
+}) satisfies z.ZodType<ChatHistoryMessage>;
+
+const ChatSourceSchema = z.object({
+  type: z.string(),
+  source: z.string(),
+  title: z.string(),
+  section: z.enum(['apps', 'experience', 'education']).optional(),
+  itemId: z.string().optional(),
+  headingPath: z.string().optional(),
+  pageStart: z.number().int().positive().optional(),
+  pageEnd: z.number().int().positive().optional(),
+}) satisfies z.ZodType<ChatSource>;
+
+const FitSkillSchema = z.object({
+  skill: z.string(),
+  required: z.boolean(),
+}) satisfies z.ZodType<FitSkill>;
+
+const FitSkillMatchSchema = FitSkillSchema.extend({
+  evidence: z.array(ChatSourceSchema),
+}) satisfies z.ZodType<FitSkillMatch>;
+
+const FitReportSchema = z.object({
+  matched: z.array(FitSkillMatchSchema),
+  gaps: z.array(FitSkillSchema),
+  score: z.number().min(0).max(1),
+  pitch: z.string(),
+}) satisfies z.ZodType<FitReport>;
+
+const StoredChatMessageSchema = ChatHistoryMessageSchema.extend({
+  id: z.string(),
+  timestamp: z.string(),
+  sources: z.array(ChatSourceSchema).optional(),
+  fit: FitReportSchema.optional(),
+}) satisfies z.ZodType<StoredChatMessage>;
+
+export const ChatRequestSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required'),
+  conversationHistory: z.array(ChatHistoryMessageSchema).optional(),
+  sessionId: SessionIdSchema.optional(),
+  stream: z.boolean().optional(),
+}) satisfies z.ZodType<ChatRequest>;
+
+export const ChatResponseSchema = z.object({
+  response: z.string(),
+  sources: z.array(ChatSourceSchema),
+  sessionId: z.string().optional(),
+  cached: z.boolean().optional(),
+  timestamp: z.string(),
+}) satisfies z.ZodType<ChatResponse>;
+
+export const ChatSessionResponseSchema = z.object({
+  sessionId: z.string(),
+  messages: z.array(StoredChatMessageSchema),
+  updatedAt: z.string(),
+}) satisfies z.ZodType<ChatSessionResponse>;
+
+export const ChatStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('sources'), sources: z.array(ChatSourceSchema), cached: z.boolean().optional() }),
+  z.object({ type: z.literal('token'), content: z.string() }),
+  z.object({ type: z.literal('done'), timestamp: z.string() }),
+  z.object({ type: z.literal('error'), error: z.string() }),
+]) satisfies z.ZodType<ChatStreamEvent>;
+
+export const FitRequestSchema = z.object({
+  jobDescription: z.string().trim().min(1, 'Job description is required'),
+  sessionId: SessionIdSchema.optional(),
+}) satisfies z.ZodType<FitRequest>;
+
+export const FitResponseSchema = FitReportSchema.extend({
+  timestamp: z.string(),
+}) satisfies z.ZodType<FitResponse>;
+
+const IngestionSourceSchema = z.enum(['website', 'documents', 'files']);
+
+export const IngestRequestSchema = z.strictObject(
+  {
+    source: z.union([IngestionSourceSchema, z.literal('all')]).optional(),
+  },
+  { error: 'Unexpected field. Send credentials in the Authorization or X-Signature header, not the body' }
+) satisfies z.ZodType<IngestRequest>;
+
+export const IngestJobAcceptedSchema = z.object({
+  jobId: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'partial', 'failed']),
+  statusUrl: z.string(),
+}) satisfies z.ZodType<IngestJobAccepted>;
+
+export const IngestionJobIdSchema = z.uuid('Invalid job id');
+
+const IngestionStageProgressSchema = z.object({
+  source: IngestionSourceSchema,
+  status: z.enum(['pending', 'loading', 'embedding', 'completed', 'failed']),
+  documents: z.number(),
+  toEmbed: z.number(),
+  upserted: z.number(),
+  skipped: z.number(),
+  deleted: z.number(),
+  failed: z.number(),
+  skippedFiles: z.array(z.string()),
+  failedFiles: z.array(z.object({ file: z.string(), error: z.string() })),
+  errors: z.array(z.string()),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+}) satisfies z.ZodType<IngestionStageProgress>;
+
+export const IngestionJobSchema = z.object({
+  id: z.string(),
+  status: IngestJobAcceptedSchema.shape.status,
+  sources: z.array(IngestionSourceSchema),
+  createdAt: z.string(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  stages: z.array(IngestionStageProgressSchema),
+  error: z.string().optional(),
+}) satisfies z.ZodType<IngestionJob>;
+
+export const ChatStatsQuerySchema = z.object({
+  // Up to 30 days back
+  hours: z.coerce.number().positive().max(720).default(24),
+});
+
+const LatencySummarySchema = z.object({
+  p50: z.number(),
+  p95: z.number(),
+  max: z.number(),
+}) satisfies z.ZodType<LatencySummary>;
+
+const ChatTraceOutcomeSchema = z.enum(['answered', 'cached', 'refused', 'unconfigured', 'error', 'aborted']);
+const ChatTraceStageSchema = z.enum(['guardrails', 'cache', 'rewrite', 'retrieval', 'generation']);
+
+export const ChatStatsResponseSchema = z.object({
+  since: z.string(),
+  until: z.string(),
+  requests: z.number(),
+  outcomes: z.partialRecord(ChatTraceOutcomeSchema, z.number()),
+  cacheHitRate: z.number(),
+  latencyMs: LatencySummarySchema.extend({
+    stages: z.partialRecord(ChatTraceStageSchema, LatencySummarySchema),
+  }),
+  firstTokenMs: LatencySummarySchema.nullable(),
+  tokens: z.object({ prompt: z.number(), completion: z.number(), embedding: z.number() }),
+  costUsd: z.object({ total: z.number(), perAnsweredRequest: z.number(), unpricedRequests: z.number() }),
+  models: z.record(z.string(), z.number()),
+  retrieval: z.object({
+    fallbackRate: z.number(),
+    averageTopScore: z.number().nullable(),
+    topSources: z.array(z.object({ source: z.string(), count: z.number() })),
+  }),
+}) satisfies z.ZodType<ChatStatsResponse>;
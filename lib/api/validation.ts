@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import type { z } from 'zod';
+import type { ApiErrorResponse, ApiValidationIssue } from '@/types/api';
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse<ApiErrorResponse> };
+
+export function toValidationIssues(error: z.ZodError): ApiValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.map(String).join('.') || '(root)',
+    message: issue.message,
+  }));
+}
+
+export function validationErrorResponse(error: z.ZodError, message: string = 'Invalid request body') {
+  return NextResponse.json<ApiErrorResponse>(
+    { error: message, issues: toValidationIssues(error) },
+    { status: 400 }
+  );
+}
+
+/**
+ * Validate a value (e.g. route params) against a schema, producing a 400 response on failure
+ */
+export function parseWithSchema<S extends z.ZodType>(
+  schema: S,
+  value: unknown,
+  message?: string
+): ParseResult<z.infer<S>> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return { success: false, response: validationErrorResponse(result.error, message) };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Read and validate a JSON request body. Malformed JSON and schema
+ * violations both become structured 400 responses.
+ */
+export async function parseJsonBody<S extends z.ZodType>(
+  request: Request,
+  schema: S
+): Promise<ParseResult<z.infer<S>>> {
+  return parseJsonText(await request.text(), schema);
+}
+
+/**
+ * Same as parseJsonBody for a body that was already read, e.g. to verify a
+ * signature over the raw bytes first. An empty body is validated as {}.
+ */
+export function parseJsonText<S extends z.ZodType>(text: string, schema: S): ParseResult<z.infer<S>> {
+  let body: unknown;
+  try {
+    body = text.trim() === '' ? {} : JSON.parse(text);
+  } catch {
+    return {
+      success: false,
+      response: NextResponse.json<ApiErrorResponse>({ error: 'Request body must be valid JSON' }, { status: 400 }),
+    };
+  }
+
+  return parseWithSchema(schema, body);
+}
+
+/**
+ * JSON response checked against the schema of its shared type first, so a
+ * route can't send a shape ChatBot.tsx and other clients don't expect. A
+ * mismatch throws and ends up in the route's 500 handler.
+ */
+export function validatedJson<S extends z.ZodType>(schema: S, body: z.input<S>, init?: ResponseInit) {
+  return NextResponse.json<z.output<S>>(schema.parse(body), init);
+}
@@ -0,0 +1,51 @@
+import { ChatStreamEventSchema } from '@/lib/api/schemas';
+import type { ChatStreamEvent } from '@/types/chat';
+
+/**
+ * Encode a chat event as a Server-Sent Events frame
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read a Server-Sent Events body produced by /api/chat and yield the decoded events
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Frames are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = frame
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+
+        if (data) {
+          const event = ChatStreamEventSchema.safeParse(JSON.parse(data));
+          if (!event.success) {
+            throw new Error('Received a malformed chat stream event');
+          }
+          yield event.data;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
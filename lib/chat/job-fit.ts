@@ -0,0 +1,204 @@
+import { SKILL_CATALOG, skillMatcher, type SkillDefinition } from '@/lib/rag/skill-catalog';
+import { contentData } from '@/lib/data';
+import { ABOUT_SOURCE, experienceSource, projectSource } from '@/lib/rag/citations';
+import type { ChatSource } from '@/types/chat';
+import type { ContentData } from '@/types/content';
+import type { FitReport, FitSkill, FitSkillMatch } from '@/types/fit';
+
+interface CatalogEntry extends SkillDefinition {
+  matcher: RegExp;
+}
+
+// Marks a section or a single line as optional
+const PREFERRED = /nice[\s-]to[\s-]have|preferred|bonus|\bplus\b|desired|optional/i;
+
+// Headings that start a new section of a job description
+const SECTION = /requirement|required|must[\s-]have|qualification|what you('ll)? (need|bring)|about you|responsibilit|skills|experience/i;
+
+function toEntry(definition: SkillDefinition): CatalogEntry {
+  return { ...definition, matcher: skillMatcher(definition.patterns) };
+}
+
+/**
+ * The skill catalog plus every portfolio skill it doesn't cover yet
+ */
+function buildCatalog(data: ContentData): CatalogEntry[] {
+  const catalog = SKILL_CATALOG.map(toEntry);
+  const portfolioSkills = [
+    ...data.apps.flatMap((app) => app.tech),
+    ...data.experience.flatMap((exp) => exp.stack ?? []),
+    ...Object.values(data.about.skills).flat(),
+  ];
+
+  portfolioSkills.forEach((skill) => {
+    if (!catalog.some((entry) => entry.matcher.test(skill))) {
+      catalog.push(toEntry({ name: skill, patterns: [skill.toLowerCase()] }));
+    }
+  });
+
+  return catalog;
+}
+
+/**
+ * "## Requirements", "What you'll bring:", "Nice to have" - but not a bullet
+ * or a short sentence like "Experience with Kafka is a plus"
+ */
+function isHeading(line: string): boolean {
+  const trimmed = line.trim();
+  const text = trimmed.replace(/^#+\s*|\*\*/g, '').trim();
+  if (text.length === 0 || text.length > 60 || /^[-*•·]|^\d+[.)]\s/.test(trimmed)) return false;
+  if (trimmed.startsWith('#') || text.endsWith(':')) return true;
+  return text.split(/\s+/).length <= 4 && (PREFERRED.test(text) || SECTION.test(text));
+}
+
+interface ExtractedSkill extends FitSkill {
+  /** Skills offered as alternatives, as in "PyTorch or TensorFlow" */
+  alternatives: Set<string>;
+}
+
+// Text between two skills that makes them alternatives
+const ALTERNATIVE = /^\s*(or|\/)\s*$/i;
+
+/**
+ * Skills a job description asks for, in order of first mention. A skill is
+ * required unless every mention is under a "nice to have" style heading or
+ * on a line that calls it optional.
+ */
+function extractSkills(jobDescription: string, catalog: CatalogEntry[]): ExtractedSkill[] {
+  const found = new Map<string, ExtractedSkill>();
+  let inPreferredSection = false;
+
+  jobDescription.split('\n').forEach((line) => {
+    if (isHeading(line)) {
+      inPreferredSection = PREFERRED.test(line);
+    }
+    const required = !inPreferredSection && !PREFERRED.test(line);
+
+    const hits = catalog
+      .map((entry) => {
+        const match = entry.matcher.exec(line);
+        if (!match) return null;
+        const start = match.index + match[1].length;
+        return { name: entry.name, start, end: start + match[2].length };
+      })
+      .filter((hit): hit is { name: string; start: number; end: number } => hit !== null)
+      .sort((a, b) => a.start - b.start);
+
+    hits.forEach((hit, i) => {
+      const skill = found.get(hit.name) ?? { skill: hit.name, required, alternatives: new Set<string>() };
+      skill.required = skill.required || required;
+      found.set(hit.name, skill);
+
+      const next = hits[i + 1];
+      if (next && ALTERNATIVE.test(line.slice(hit.end, next.start))) {
+        skill.alternatives.add(next.name);
+        const other = found.get(next.name) ?? { skill: next.name, required, alternatives: new Set<string>() };
+        other.alternatives.add(hit.name);
+        found.set(next.name, other);
+      }
+    });
+  });
+
+  return Array.from(found.values());
+}
+
+/**
+ * Roles, projects and the skills list that show a skill, roles first
+ */
+function findEvidence(entry: CatalogEntry, data: ContentData): ChatSource[] {
+  const shows = (value: string) => entry.matcher.test(value);
+  const roles = data.experience.filter((exp) => (exp.stack ?? []).some(shows));
+  const apps = data.apps.filter((app) => app.tech.some(shows));
+  const listed = Object.entries(data.about.skills).some(
+    ([category, skills]) => shows(category) || skills.some(shows)
+  );
+
+  return [...roles.map(experienceSource), ...apps.map(projectSource), ...(listed ? [ABOUT_SOURCE] : [])];
+}
+
+function listJoin(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function writePitch(matched: FitSkillMatch[], gaps: FitSkill[], data: ContentData): string {
+  const skills = [...matched, ...gaps];
+  if (skills.length === 0) {
+    return "I couldn't find specific skills in this job description. Try pasting its requirements or qualifications section.";
+  }
+
+  const required = skills.filter((skill) => skill.required);
+  const preferred = skills.filter((skill) => !skill.required);
+  const coverage = required.length > 0
+    ? `Harishraj covers ${matched.filter((skill) => skill.required).length} of the ${required.length} required skills` +
+      (preferred.length > 0 ? ` and ${matched.filter((skill) => !skill.required).length} of ${preferred.length} nice-to-haves` : '')
+    : `Harishraj covers ${matched.length} of the ${skills.length} skills mentioned`;
+  const sentences = [`${coverage} in this role.`];
+
+  const strongest = [...matched]
+    .sort((a, b) => Number(b.required) - Number(a.required) || b.evidence.length - a.evidence.length)
+    .slice(0, 4)
+    .map((match) => match.skill);
+  if (strongest.length > 0) {
+    // Experience is listed newest first
+    const latest = data.experience.find((exp) =>
+      matched.some((match) => match.evidence.some((source) => source.section === 'experience' && source.itemId === exp.id))
+    );
+    sentences.push(
+      `He has hands-on experience with ${listJoin(strongest)}${latest ? `, most recently as ${latest.role} at ${latest.company}` : ''}.`
+    );
+  }
+
+  const missing = gaps.filter((gap) => gap.required).map((gap) => gap.skill);
+  if (missing.length > 0) {
+    const named = missing.length > 3 ? [...missing.slice(0, 3), `${missing.length - 3} more`] : missing;
+    sentences.push(`His portfolio doesn't show ${listJoin(named)}, which may be worth asking him about.`);
+  }
+
+  return sentences.join(' ');
+}
+
+/**
+ * How a pasted job description appears in the conversation: its first line
+ * rather than all of it
+ */
+export function jobDescriptionLabel(jobDescription: string): string {
+  const firstLine = jobDescription.split('\n').find((line) => line.trim())?.trim() ?? '';
+  return `📋 Job description: ${firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine}`;
+}
+
+/**
+ * Match the skills a job description asks for against the portfolio's
+ * skills, project tech and role stacks. Deterministic: no model is called.
+ */
+export function analyzeJobFit(jobDescription: string, data: ContentData = contentData): FitReport {
+  const catalog = buildCatalog(data);
+  const entries = new Map(catalog.map((entry) => [entry.name, entry]));
+
+  const skills = extractSkills(jobDescription, catalog).map(({ skill, required, alternatives }) => ({
+    skill,
+    required,
+    alternatives,
+    evidence: findEvidence(entries.get(skill)!, data),
+  }));
+  const shown = new Set(skills.filter((skill) => skill.evidence.length > 0).map((skill) => skill.skill));
+
+  const matched: FitSkillMatch[] = skills
+    .filter((skill) => shown.has(skill.skill))
+    .map(({ skill, required, evidence }) => ({ skill, required, evidence }));
+  // "PyTorch or TensorFlow" is covered by either one
+  const gaps: FitSkill[] = skills
+    .filter((skill) => !shown.has(skill.skill) && !Array.from(skill.alternatives).some((name) => shown.has(name)))
+    .map(({ skill, required }) => ({ skill, required }));
+
+  const required = [...matched, ...gaps].filter((skill) => skill.required).length;
+  const requiredMatched = matched.filter((skill) => skill.required).length;
+  const total = matched.length + gaps.length;
+  const score = required > 0 ? requiredMatched / required : total > 0 ? matched.length / total : 0;
+
+  return {
+    matched,
+    gaps,
+    score: Math.round(score * 100) / 100,
+    pitch: writePitch(matched, gaps, data),
+  };
+}
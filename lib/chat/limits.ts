@@ -0,0 +1,51 @@
+import { parseNumber } from '@/lib/rag/config';
+import { MemoryRateLimitStore, TokenBucketRateLimiter, type RateLimitStore } from '@/lib/api/rate-limit';
+
+export interface ChatLimits {
+  maxMessageLength: number;
+  maxHistoryMessages: number;
+  maxHistoryChars: number;
+  /** Job descriptions pasted into the fit analysis run longer than chat messages */
+  maxJobDescriptionLength: number;
+}
+
+export function loadChatLimits(env: NodeJS.ProcessEnv = process.env): ChatLimits {
+  return {
+    maxMessageLength: parseNumber(env.CHAT_MAX_MESSAGE_LENGTH, 1000),
+    maxHistoryMessages: parseNumber(env.CHAT_MAX_HISTORY_MESSAGES, 20),
+    maxHistoryChars: parseNumber(env.CHAT_MAX_HISTORY_CHARS, 12000),
+    maxJobDescriptionLength: parseNumber(env.CHAT_MAX_JOB_DESCRIPTION_LENGTH, 10000),
+  };
+}
+
+interface ChatRateLimiters {
+  ip: TokenBucketRateLimiter;
+  session: TokenBucketRateLimiter;
+}
+
+let limiters: ChatRateLimiters | null = null;
+
+/**
+ * Per-IP and per-session limiters for /api/chat, sharing one store. Only the
+ * IP limiter protects against abuse: a client picks its own session id and
+ * can send a new one with every request. The session limiter just keeps one
+ * conversation from hogging its IP's budget.
+ */
+export function getChatRateLimiters(
+  env: NodeJS.ProcessEnv = process.env,
+  store: RateLimitStore = new MemoryRateLimitStore()
+): ChatRateLimiters {
+  if (limiters) return limiters;
+
+  limiters = {
+    ip: new TokenBucketRateLimiter(store, {
+      capacity: parseNumber(env.CHAT_RATE_LIMIT_IP_BURST, 20),
+      refillPerMinute: parseNumber(env.CHAT_RATE_LIMIT_IP_PER_MINUTE, 6),
+    }),
+    session: new TokenBucketRateLimiter(store, {
+      capacity: parseNumber(env.CHAT_RATE_LIMIT_SESSION_BURST, 10),
+      refillPerMinute: parseNumber(env.CHAT_RATE_LIMIT_SESSION_PER_MINUTE, 4),
+    }),
+  };
+  return limiters;
+}
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { parseNumber } from '@/lib/rag/config';
+import type { ChatSession, StoredChatMessage } from '@/types/chat';
+
+// Older turns are dropped once a session grows past this
+const MAX_STORED_MESSAGES = 100;
+
+// How often the file store looks for expired sessions to delete
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function isValidSessionId(id: string): boolean {
+  return SESSION_ID_PATTERN.test(id);
+}
+
+export function createStoredMessage(message: Omit<StoredChatMessage, 'id' | 'timestamp'>): StoredChatMessage {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...message,
+  };
+}
+
+/**
+ * Server-side conversation storage
+ */
+export interface SessionStore {
+  get(id: string): Promise<ChatSession | null>;
+  /** Append messages, creating the session if it doesn't exist yet */
+  append(id: string, messages: StoredChatMessage[]): Promise<ChatSession>;
+  delete(id: string): Promise<void>;
+}
+
+function isExpired(session: ChatSession, ttlMs: number, now: number = Date.now()): boolean {
+  return now - Date.parse(session.updatedAt) > ttlMs;
+}
+
+function appendToSession(session: ChatSession | null, id: string, messages: StoredChatMessage[]): ChatSession {
+  const now = new Date().toISOString();
+  const base = session ?? { id, createdAt: now, updatedAt: now, messages: [] };
+  return {
+    ...base,
+    updatedAt: now,
+    messages: [...base.messages, ...messages].slice(-MAX_STORED_MESSAGES),
+  };
+}
+
+/**
+ * Keeps sessions in process memory; lost on restart. Sessions idle for
+ * longer than `ttlMs` are dropped.
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, ChatSession>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  async get(id: string): Promise<ChatSession | null> {
+    const session = this.sessions.get(id);
+    if (session && isExpired(session, this.ttlMs)) {
+      this.sessions.delete(id);
+      return null;
+    }
+    return session ?? null;
+  }
+
+  async append(id: string, messages: StoredChatMessage[]): Promise<ChatSession> {
+    const session = appendToSession(await this.get(id), id, messages);
+    this.sessions.set(id, session);
+    this.sessions.forEach((stored, storedId) => {
+      if (isExpired(stored, this.ttlMs)) this.sessions.delete(storedId);
+    });
+    return session;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+}
+
+/**
+ * One JSON file per session in a local directory. Appends to one session
+ * run one at a time so concurrent turns don't overwrite each other, and
+ * sessions idle for longer than `ttlMs` are deleted.
+ */
+export class FileSessionStore implements SessionStore {
+  private dir: string;
+  private ttlMs: number;
+  private pending = new Map<string, Promise<unknown>>();
+  private lastCleanup = 0;
+
+  constructor(dir: string, ttlMs: number) {
+    this.dir = dir;
+    this.ttlMs = ttlMs;
+  }
+
+  private filePath(id: string): string {
+    if (!isValidSessionId(id)) {
+      throw new Error(`Invalid session id "${id}"`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private async read(filePath: string): Promise<ChatSession | null> {
+    try {
+      const content = await fs.promises.readFile(filePath, 'utf-8');
+      return JSON.parse(content) as ChatSession;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<ChatSession | null> {
+    const session = await this.read(this.filePath(id));
+    if (session && isExpired(session, this.ttlMs)) {
+      await this.delete(id);
+      return null;
+    }
+    return session;
+  }
+
+  async append(id: string, messages: StoredChatMessage[]): Promise<ChatSession> {
+    const filePath = this.filePath(id);
+    const previous = this.pending.get(id) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const session = appendToSession(await this.get(id), id, messages);
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        // Written whole and renamed so a reader never sees half a file
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(session, null, 2));
+        await fs.promises.rename(tempPath, filePath);
+        return session;
+      });
+
+    this.pending.set(id, write);
+    try {
+      return await write;
+    } finally {
+      if (this.pending.get(id) === write) this.pending.delete(id);
+      await this.removeExpired();
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.promises.rm(this.filePath(id), { force: true });
+  }
+
+  /** Delete expired session files, at most once per CLEANUP_INTERVAL_MS */
+  private async removeExpired(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastCleanup < CLEANUP_INTERVAL_MS) return;
+    this.lastCleanup = now;
+
+    try {
+      for (const file of await fs.promises.readdir(this.dir)) {
+        if (!file.endsWith('.json')) continue;
+        const filePath = path.join(this.dir, file);
+        const session = await this.read(filePath).catch(() => null);
+        if (session && isExpired(session, this.ttlMs, now)) {
+          await fs.promises.rm(filePath, { force: true });
+        }
+      }
+    } catch (error) {
+      console.error('Could not clean up expired chat sessions:', error);
+    }
+  }
+}
+
+let sessionStore: SessionStore | null = null;
+
+/**
+ * Shared session store picked from env: CHAT_SESSION_STORE=memory (default)
+ * or file, which needs a writable CHAT_SESSION_DIR. Sessions expire after
+ * CHAT_SESSION_TTL_HOURS without a new turn.
+ */
+export function getSessionStore(env: NodeJS.ProcessEnv = process.env): SessionStore {
+  if (sessionStore) return sessionStore;
+
+  const ttlMs = parseNumber(env.CHAT_SESSION_TTL_HOURS, 24 * 7) * 60 * 60 * 1000;
+  const kind = (env.CHAT_SESSION_STORE || 'memory').toLowerCase();
+  switch (kind) {
+    case 'memory':
+      sessionStore = new MemorySessionStore(ttlMs);
+      break;
+    case 'file':
+      sessionStore = new FileSessionStore(path.resolve(process.cwd(), env.CHAT_SESSION_DIR || '.rag/sessions'), ttlMs);
+      break;
+    default:
+      throw new Error(`Unknown CHAT_SESSION_STORE "${kind}". Expected memory or file.`);
+  }
+  return sessionStore;
+}
@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import { contentHash } from '@/lib/rag/ingest-manifest';
+import { cosineSimilarity } from '@/lib/rag/vector-store';
+import type { ChatSource } from '@/types/chat';
+
+export type AnswerCacheKind = 'off' | 'memory' | 'file';
+
+export const ANSWER_CACHE_KINDS: AnswerCacheKind[] = ['off', 'memory', 'file'];
+
+export interface AnswerCacheConfig {
+  kind: AnswerCacheKind;
+  /** Where the file backend keeps its entries */
+  filePath: string;
+  ttlSeconds: number;
+  /**
+   * Cosine similarity above which a differently worded question reuses a
+   * cached answer; 0 turns similarity matching off and only exact
+   * (normalized) questions hit
+   */
+  similarity: number;
+  /** Oldest entries are evicted past this */
+  maxEntries: number;
+}
+
+export interface CachedAnswer {
+  key: string;
+  /** The normalized question */
+  query: string;
+  /** Content version the answer was generated against */
+  version: string;
+  answer: string;
+  sources: ChatSource[];
+  /** Embedding of the question, kept when similarity matching is on */
+  embedding?: number[];
+  /** Epoch milliseconds */
+  createdAt: number;
+}
+
+/**
+ * Where cached answers live
+ */
+export interface AnswerCacheStore {
+  get(key: string): Promise<CachedAnswer | null>;
+  /** Every entry, for similarity matching and eviction */
+  entries(): Promise<CachedAnswer[]>;
+  set(entry: CachedAnswer): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Keeps answers in process memory; lost on restart
+ */
+export class MemoryAnswerCacheStore implements AnswerCacheStore {
+  private answers = new Map<string, CachedAnswer>();
+
+  async get(key: string): Promise<CachedAnswer | null> {
+    return this.answers.get(key) ?? null;
+  }
+
+  async entries(): Promise<CachedAnswer[]> {
+    return Array.from(this.answers.values());
+  }
+
+  async set(entry: CachedAnswer): Promise<void> {
+    this.answers.set(entry.key, entry);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.answers.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    this.answers.clear();
+  }
+}
+
+/**
+ * All answers in one JSON file, re-read when another process (e.g. the
+ * ingestion CLI clearing the cache) has changed it
+ */
+export class FileAnswerCacheStore implements AnswerCacheStore {
+  private filePath: string;
+  private answers: Map<string, CachedAnswer> | null = null;
+  private loadedMtimeMs = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  private async load(): Promise<Map<string, CachedAnswer>> {
+    const stat = await fs.promises.stat(this.filePath).catch(() => null);
+    if (this.answers && (stat?.mtimeMs ?? 0) === this.loadedMtimeMs) {
+      return this.answers;
+    }
+
+    const entries: CachedAnswer[] = stat
+      ? JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8')).entries
+      : [];
+    this.answers = new Map(entries.map((entry) => [entry.key, entry]));
+    this.loadedMtimeMs = stat?.mtimeMs ?? 0;
+    return this.answers;
+  }
+
+  private async save(answers: Map<string, CachedAnswer>): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify({ version: 1, entries: Array.from(answers.values()) }));
+    await fs.promises.rename(tempPath, this.filePath);
+    this.loadedMtimeMs = (await fs.promises.stat(this.filePath)).mtimeMs;
+  }
+
+  async get(key: string): Promise<CachedAnswer | null> {
+    return (await this.load()).get(key) ?? null;
+  }
+
+  async entries(): Promise<CachedAnswer[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  async set(entry: CachedAnswer): Promise<void> {
+    const answers = await this.load();
+    answers.set(entry.key, entry);
+    await this.save(answers);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    const answers = await this.load();
+    keys.forEach((key) => answers.delete(key));
+    await this.save(answers);
+  }
+
+  async clear(): Promise<void> {
+    const answers = await this.load();
+    answers.clear();
+    await this.save(answers);
+  }
+}
+
+/**
+ * Lowercase, without punctuation or extra whitespace, so "What are his
+ * technical skills?" and "what are his technical skills" share an entry
+ */
+export function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[?!.,;:"]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Answers to standalone questions, keyed on the normalized question and
+ * the version of the content they were generated from. Optionally matches
+ * near-duplicate questions by embedding similarity.
+ */
+export class AnswerCache {
+  private store: AnswerCacheStore;
+  private config: AnswerCacheConfig;
+  private now: () => number;
+
+  constructor(store: AnswerCacheStore, config: AnswerCacheConfig, now: () => number = Date.now) {
+    this.store = store;
+    this.config = config;
+    this.now = now;
+  }
+
+  /** True when near-duplicate questions are matched, which needs the question's embedding */
+  get matchesSimilar(): boolean {
+    return this.config.similarity > 0;
+  }
+
+  private key(query: string, version: string): string {
+    return contentHash(`${version}\n${normalizeQuery(query)}`);
+  }
+
+  private isFresh(entry: CachedAnswer, version: string): boolean {
+    return entry.version === version && this.now() - entry.createdAt < this.config.ttlSeconds * 1000;
+  }
+
+  /**
+   * The cached answer for a question, or for the most similar cached
+   * question when an embedding is given and similarity matching is on
+   */
+  async get(query: string, version: string, embedding?: number[]): Promise<CachedAnswer | null> {
+    const exact = await this.store.get(this.key(query, version));
+    if (exact && this.isFresh(exact, version)) return exact;
+    if (!embedding || !this.matchesSimilar) return null;
+
+    let best: CachedAnswer | null = null;
+    let bestScore = this.config.similarity;
+    for (const entry of await this.store.entries()) {
+      if (!entry.embedding || entry.embedding.length !== embedding.length || !this.isFresh(entry, version)) continue;
+      const score = cosineSimilarity(embedding, entry.embedding);
+      if (score >= bestScore) {
+        best = entry;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  async set(
+    query: string,
+    version: string,
+    answer: Pick<CachedAnswer, 'answer' | 'sources'>,
+    embedding?: number[]
+  ): Promise<void> {
+    await this.store.set({
+      key: this.key(query, version),
+      query: normalizeQuery(query),
+      version,
+      answer: answer.answer,
+      sources: answer.sources,
+      ...(embedding && this.matchesSimilar ? { embedding } : {}),
+      createdAt: this.now(),
+    });
+
+    // Drop expired and superseded entries, then the oldest past the cap
+    const entries = await this.store.entries();
+    const stale = entries.filter((entry) => !this.isFresh(entry, version));
+    const fresh = entries
+      .filter((entry) => this.isFresh(entry, version))
+      .sort((a, b) => b.createdAt - a.createdAt);
+    const evicted = [...stale, ...fresh.slice(this.config.maxEntries)].map((entry) => entry.key);
+    if (evicted.length > 0) {
+      await this.store.delete(evicted);
+    }
+  }
+
+  clear(): Promise<void> {
+    return this.store.clear();
+  }
+}
+
+export function createAnswerCache(config: AnswerCacheConfig): AnswerCache | null {
+  switch (config.kind) {
+    case 'off':
+      return null;
+    case 'memory':
+      return new AnswerCache(new MemoryAnswerCacheStore(), config);
+    case 'file':
+      return new AnswerCache(new FileAnswerCacheStore(config.filePath), config);
+  }
+}
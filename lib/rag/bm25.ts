@@ -0,0 +1,99 @@
+import { tokenize } from '@/lib/rag/text';
+
+export interface LexicalDocument {
+  id: string;
+  text: string;
+}
+
+export interface LexicalMatch {
+  id: string;
+  score: number;
+}
+
+/**
+ * In-memory Okapi BM25 index. Rewards exact term matches such as product
+ * and company names that embedding search tends to blur.
+ */
+export class BM25Index {
+  private k1: number;
+  private b: number;
+  private termFrequencies = new Map<string, Map<string, number>>();
+  private documentLengths = new Map<string, number>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(k1: number = 1.2, b: number = 0.75) {
+    this.k1 = k1;
+    this.b = b;
+  }
+
+  get size(): number {
+    return this.documentLengths.size;
+  }
+
+  add(documents: LexicalDocument[]): void {
+    for (const document of documents) {
+      if (this.documentLengths.has(document.id)) {
+        this.remove(document.id);
+      }
+
+      const tokens = tokenize(document.text);
+      const frequencies = new Map<string, number>();
+      tokens.forEach((token) => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+
+      frequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      });
+      this.termFrequencies.set(document.id, frequencies);
+      this.documentLengths.set(document.id, tokens.length);
+      this.totalLength += tokens.length;
+    }
+  }
+
+  remove(id: string): void {
+    const frequencies = this.termFrequencies.get(id);
+    if (!frequencies) return;
+
+    frequencies.forEach((_, term) => {
+      const count = (this.documentFrequencies.get(term) ?? 1) - 1;
+      if (count > 0) {
+        this.documentFrequencies.set(term, count);
+      } else {
+        this.documentFrequencies.delete(term);
+      }
+    });
+    this.totalLength -= this.documentLengths.get(id) ?? 0;
+    this.termFrequencies.delete(id);
+    this.documentLengths.delete(id);
+  }
+
+  search(query: string, topK: number): LexicalMatch[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.size === 0) return [];
+
+    const averageLength = this.totalLength / this.size || 1;
+    const matches: LexicalMatch[] = [];
+
+    this.termFrequencies.forEach((frequencies, id) => {
+      const length = this.documentLengths.get(id) ?? 0;
+      let score = 0;
+
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (this.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score +=
+          (idf * frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + (this.b * length) / averageLength));
+      }
+
+      if (score > 0) {
+        matches.push({ id, score });
+      }
+    });
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
@@ -0,0 +1,545 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+
+/**
+ * How text is cut into units before they are packed into chunks:
+ * - sentence: prose is split into sentences
+ * - paragraph: paragraphs, lists, tables and code blocks are kept whole
+ * - recursive: like paragraph, oversized blocks are split on lines, then sentences, then words
+ * - markdown: like recursive, and chunks never cross a heading; each carries its heading path
+ *
+ * Code blocks, lists and tables are never split unless they alone exceed the chunk size.
+ */
+export type ChunkStrategy = 'sentence' | 'paragraph' | 'recursive' | 'markdown';
+
+export const CHUNK_STRATEGIES: ChunkStrategy[] = ['sentence', 'paragraph', 'recursive', 'markdown'];
+
+export interface ChunkingConfig {
+  strategy: ChunkStrategy;
+  /** Upper bound on tokens per chunk, heading path included */
+  chunkSize: number;
+  /** Tokens repeated from the end of one chunk at the start of the next */
+  chunkOverlap: number;
+}
+
+export type TokenCounter = (text: string) => number;
+
+export interface Chunk {
+  text: string;
+  /** Position of the chunk in its document, from 0 */
+  index: number;
+  /** Number of chunks the document was split into */
+  total: number;
+  tokens: number;
+  /** Title and headings above the chunk, e.g. "DevContext > Architecture > Sync" */
+  headingPath?: string;
+  /** First and last page the chunk came from, for paged text */
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+export interface SplitOptions {
+  /** The text is markdown-like (# headings), as produced for .md, .docx, .html and .json files */
+  markdown?: boolean;
+  /** Leads the heading path, unless the first heading already is the title */
+  title?: string;
+  /** Pages are separated by form feeds (\f); chunks then report the pages they span */
+  paged?: boolean;
+}
+
+type BlockKind = 'heading' | 'code' | 'list' | 'table' | 'paragraph';
+
+interface Block {
+  kind: BlockKind;
+  lines: string[];
+  firstPage: number;
+  lastPage: number;
+  /** Heading level and text, for heading blocks */
+  level?: number;
+  title?: string;
+}
+
+/**
+ * Smallest piece packed into a chunk
+ */
+interface Unit {
+  text: string;
+  tokens: number;
+  /** Joins the unit to the one before it in the same chunk */
+  separator: string;
+  /** Running text that may be cut at sentence boundaries for overlap */
+  prose: boolean;
+  firstPage: number;
+  lastPage: number;
+}
+
+interface ChunkBody {
+  text: string;
+  firstPage: number;
+  lastPage: number;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^(\s*)([-*+•]|\d{1,3}[.)])\s+/;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}/;
+const SENTENCE_BOUNDARY = /(?<=[.!?]["')\]]?)\s+(?=\S)/;
+
+let encoder: Tiktoken | null = null;
+
+/**
+ * Tokens in `text` under cl100k_base, the encoding of OpenAI's embedding models
+ */
+export function countTokens(text: string): number {
+  if (!encoder) {
+    encoder = new Tiktoken(cl100k_base);
+  }
+  // Special-token markers in documents are counted as plain text instead of throwing
+  return encoder.encode(text, [], []).length;
+}
+
+function normalize(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+$/gm, '');
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(SENTENCE_BOUNDARY)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Group lines into headings, fenced code, lists, tables and paragraphs.
+ * Headings are only recognised when `withHeadings` is set; otherwise a
+ * "# ..." line is ordinary text.
+ */
+function parseBlocks(text: string, withHeadings: boolean): Block[] {
+  const lines: string[] = [];
+  // pageOf[i] is the 1-based page of lines[i]
+  const pageOf: number[] = [];
+  normalize(text).split('\f').forEach((page, index) => {
+    page.split('\n').forEach((line) => {
+      lines.push(line);
+      pageOf.push(index + 1);
+    });
+  });
+
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  // A blank line inside a list only ends it if the next line is not part of the list
+  let blankInList = false;
+
+  const close = () => {
+    if (current) blocks.push(current);
+    current = null;
+    blankInList = false;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      close();
+      const closing = new RegExp(`^\\s*${fence[1][0]}{${fence[1].length},}\\s*$`);
+      const code: Block = { kind: 'code', lines: [line], firstPage: pageOf[i], lastPage: pageOf[i] };
+      while (++i < lines.length) {
+        code.lines.push(lines[i]);
+        code.lastPage = pageOf[i];
+        if (closing.test(lines[i])) break;
+      }
+      blocks.push(code);
+      continue;
+    }
+
+    if (!line.trim()) {
+      if (current?.kind === 'list') {
+        blankInList = true;
+      } else {
+        close();
+      }
+      continue;
+    }
+
+    const heading = withHeadings ? line.match(HEADING) : null;
+    if (heading) {
+      close();
+      blocks.push({
+        kind: 'heading',
+        lines: [line.trim()],
+        firstPage: pageOf[i],
+        lastPage: pageOf[i],
+        level: heading[1].length,
+        title: heading[2],
+      });
+      continue;
+    }
+
+    const isListItem = LIST_ITEM.test(line);
+    if (current?.kind === 'list') {
+      // Items, indented continuations and lazy continuation lines stay in the list
+      if (isListItem || /^\s+\S/.test(line) || !blankInList) {
+        if (blankInList) current.lines.push('');
+        current.lines.push(line);
+        current.lastPage = pageOf[i];
+        blankInList = false;
+        continue;
+      }
+      close();
+    }
+
+    const isTableRow = TABLE_ROW.test(line);
+    if ((current?.kind === 'table' && isTableRow) || (current?.kind === 'paragraph' && !isListItem && !isTableRow)) {
+      current.lines.push(line);
+      current.lastPage = pageOf[i];
+      continue;
+    }
+
+    close();
+    current = {
+      kind: isListItem ? 'list' : isTableRow ? 'table' : 'paragraph',
+      lines: [line],
+      firstPage: pageOf[i],
+      lastPage: pageOf[i],
+    };
+  }
+
+  close();
+  return blocks;
+}
+
+/**
+ * Cuts text into token-bounded chunks without breaking code blocks, lists
+ * or tables apart. Pure apart from the token counter, which can be swapped
+ * for a cheaper estimate.
+ */
+export class Chunker {
+  private config: ChunkingConfig;
+  private count: TokenCounter;
+
+  constructor(config: ChunkingConfig, count: TokenCounter = countTokens) {
+    if (!CHUNK_STRATEGIES.includes(config.strategy)) {
+      throw new Error(`Unknown chunk strategy "${config.strategy}". Expected one of: ${CHUNK_STRATEGIES.join(', ')}`);
+    }
+    if (!Number.isInteger(config.chunkSize) || config.chunkSize < 1) {
+      throw new Error(`Chunk size must be a positive number of tokens, got ${config.chunkSize}`);
+    }
+    if (config.chunkOverlap < 0 || config.chunkOverlap >= config.chunkSize) {
+      throw new Error(`Chunk overlap must be between 0 and the chunk size (${config.chunkSize}), got ${config.chunkOverlap}`);
+    }
+
+    this.config = config;
+    this.count = count;
+  }
+
+  /**
+   * Split one document. Indices and totals are numbered across the whole
+   * document; with the markdown strategy chunks start with their heading path.
+   */
+  split(text: string, options: SplitOptions = {}): Chunk[] {
+    const { title, paged } = options;
+    const withHeadings = this.config.strategy === 'markdown' && Boolean(options.markdown);
+
+    const pieces = this.sections(parseBlocks(text, withHeadings)).flatMap(({ headings, blocks }) => {
+      const path = (title && headings[0] !== title ? [title, ...headings] : headings).join(' > ');
+      const prefix = path ? `${path}\n\n` : '';
+      // A very long heading path still leaves room for content
+      const budget = Math.max(this.config.chunkSize - this.count(prefix), Math.ceil(this.config.chunkSize / 2));
+
+      return this.pack(blocks.flatMap((block) => this.toUnits(block, budget)), budget).map((body) => ({
+        ...body,
+        text: prefix + body.text,
+        headingPath: path || undefined,
+      }));
+    });
+
+    return pieces.map(({ text: chunkText, headingPath, firstPage, lastPage }, index) => ({
+      text: chunkText,
+      index,
+      total: pieces.length,
+      tokens: this.count(chunkText),
+      ...(headingPath ? { headingPath } : {}),
+      ...(paged ? { pageStart: firstPage, pageEnd: lastPage } : {}),
+    }));
+  }
+
+  /**
+   * Group blocks under the headings above them. Sections that are only a
+   * heading are dropped; their children repeat it in their path.
+   */
+  private sections(blocks: Block[]): Array<{ headings: string[]; blocks: Block[] }> {
+    const sections: Array<{ headings: string[]; blocks: Block[] }> = [];
+    // stack[level - 1] is the current heading at that level
+    const stack: string[] = [];
+    let current = { headings: [] as string[], blocks: [] as Block[] };
+
+    for (const block of blocks) {
+      if (block.kind === 'heading') {
+        if (current.blocks.length > 0) sections.push(current);
+        stack.length = block.level! - 1;
+        stack[block.level! - 1] = block.title!;
+        current = { headings: stack.filter(Boolean), blocks: [] };
+      } else {
+        current.blocks.push(block);
+      }
+    }
+
+    if (current.blocks.length > 0) sections.push(current);
+    return sections;
+  }
+
+  private toUnits(block: Block, budget: number): Unit[] {
+    const text = block.lines.join('\n');
+    const unit = (piece: string, separator: string): Unit => ({
+      text: piece,
+      tokens: this.count(piece),
+      separator,
+      prose: block.kind === 'paragraph',
+      firstPage: block.firstPage,
+      lastPage: block.lastPage,
+    });
+
+    if (block.kind === 'paragraph' && this.config.strategy === 'sentence') {
+      return splitSentences(text.replace(/\s*\n\s*/g, ' ')).flatMap((sentence, i) =>
+        this.fit(unit(sentence, i === 0 ? '\n\n' : ' '), block.kind, budget)
+      );
+    }
+
+    return this.fit(unit(text, '\n\n'), block.kind, budget);
+  }
+
+  /**
+   * Split a unit that does not fit in a chunk on its own, keeping each
+   * piece readable: code pieces are re-fenced, table pieces repeat the header
+   */
+  private fit(unit: Unit, kind: BlockKind, budget: number): Unit[] {
+    if (unit.tokens <= budget) return [unit];
+
+    let pieces: string[];
+    let separator: string;
+    switch (kind) {
+      case 'code':
+        pieces = this.splitCode(unit.text, budget);
+        separator = '\n\n';
+        break;
+      case 'table':
+        pieces = this.splitTable(unit.text, budget);
+        separator = '\n\n';
+        break;
+      case 'list':
+        pieces = this.splitList(unit.text, budget);
+        separator = '\n';
+        break;
+      default:
+        // Leave room for the overlap carried in from the previous piece
+        pieces = this.splitProse(unit.text, Math.max(budget - this.config.chunkOverlap, 1));
+        separator = ' ';
+    }
+
+    return pieces.map((piece, i) => ({
+      ...unit,
+      text: piece,
+      tokens: this.count(piece),
+      separator: i === 0 ? unit.separator : separator,
+    }));
+  }
+
+  private splitCode(text: string, budget: number): string[] {
+    const lines = text.split('\n');
+    const open = lines[0];
+    const marker = open.match(FENCE)![1];
+    const hasClosing = lines.length > 1 && lines[lines.length - 1].trim().startsWith(marker[0].repeat(marker.length));
+    const close = hasClosing ? lines[lines.length - 1] : marker;
+    const body = lines.slice(1, hasClosing ? -1 : undefined);
+
+    const inner = Math.max(budget - this.count(`${open}\n\n${close}`), 1);
+    return this.packStrings(body, '\n', inner)
+      .flatMap((piece) => (this.count(piece) > inner ? this.hardSplit(piece, inner) : [piece]))
+      .map((piece) => `${open}\n${piece}\n${close}`);
+  }
+
+  private splitTable(text: string, budget: number): string[] {
+    const rows = text.split('\n');
+    const headerRows = rows.length > 2 && TABLE_SEPARATOR.test(rows[1]) ? rows.slice(0, 2) : [];
+    const header = headerRows.join('\n');
+    const inner = Math.max(budget - this.count(`${header}\n`), 1);
+
+    return this.packStrings(rows.slice(headerRows.length), '\n', inner)
+      .flatMap((piece) => (this.count(piece) > inner ? this.splitProse(piece, inner) : [piece]))
+      .map((piece) => (header ? `${header}\n${piece}` : piece));
+  }
+
+  private splitList(text: string, budget: number): string[] {
+    const lines = text.split('\n');
+    const itemIndent = lines[0].match(LIST_ITEM)?.[1].length ?? 0;
+    const items: string[] = [];
+
+    // A new top-level item starts at a marker no deeper than the first one
+    lines.forEach((line) => {
+      const marker = line.match(LIST_ITEM);
+      if (items.length === 0 || (marker && marker[1].length <= itemIndent)) {
+        items.push(line);
+      } else {
+        items[items.length - 1] += `\n${line}`;
+      }
+    });
+
+    return this.packStrings(items, '\n', budget)
+      .flatMap((piece) => (this.count(piece) > budget ? this.splitProse(piece, budget) : [piece]));
+  }
+
+  /**
+   * Split on the coarsest boundary that works: blank lines, lines,
+   * sentences, words, and as a last resort characters
+   */
+  private splitProse(text: string, budget: number, level: number = 0): string[] {
+    const boundaries: Array<[RegExp, string]> = [
+      [/\n{2,}/, '\n\n'],
+      [/\n/, '\n'],
+      [SENTENCE_BOUNDARY, ' '],
+      [/\s+/, ' '],
+    ];
+
+    for (let i = level; i < boundaries.length; i++) {
+      const [boundary, joiner] = boundaries[i];
+      const parts = text.split(boundary).map((part) => part.trim()).filter(Boolean);
+      if (parts.length < 2) continue;
+
+      return this.packStrings(parts, joiner, budget).flatMap((piece) =>
+        this.count(piece) > budget ? this.splitProse(piece, budget, i + 1) : [piece]
+      );
+    }
+
+    return this.hardSplit(text, budget);
+  }
+
+  /**
+   * Cut at the longest prefix that fits, for text with no usable boundary
+   * such as a long URL or an encoded blob
+   */
+  private hardSplit(text: string, budget: number): string[] {
+    const pieces: string[] = [];
+    let rest = text;
+
+    while (rest) {
+      if (this.count(rest) <= budget) {
+        pieces.push(rest);
+        break;
+      }
+
+      let low = 1;
+      let high = rest.length;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (this.count(rest.slice(0, mid)) <= budget) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+
+      pieces.push(rest.slice(0, low));
+      rest = rest.slice(low);
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Greedily join parts while the result fits; a part that is too big on
+   * its own is returned alone for the caller to split further
+   */
+  private packStrings(parts: string[], joiner: string, budget: number): string[] {
+    const pieces: string[] = [];
+    let current = '';
+
+    for (const part of parts) {
+      const candidate = current ? `${current}${joiner}${part}` : part;
+      if (current && this.count(candidate) > budget) {
+        pieces.push(current);
+        current = part;
+      } else {
+        current = candidate;
+      }
+    }
+
+    if (current) pieces.push(current);
+    return pieces;
+  }
+
+  /**
+   * Pack units into chunk bodies. Each new chunk starts with the tail of
+   * the previous one, up to the overlap, cut at unit or sentence boundaries.
+   */
+  private pack(units: Unit[], budget: number): ChunkBody[] {
+    const chunks: ChunkBody[] = [];
+    let current: Unit[] = [];
+    let tokens = 0;
+
+    const render = (chunk: Unit[]): ChunkBody => ({
+      text: chunk.map((unit, i) => (i === 0 ? unit.text : unit.separator + unit.text)).join(''),
+      firstPage: Math.min(...chunk.map((unit) => unit.firstPage)),
+      lastPage: Math.max(...chunk.map((unit) => unit.lastPage)),
+    });
+
+    for (const unit of units) {
+      const joined = tokens + (current.length > 0 ? this.count(unit.separator) : 0) + unit.tokens;
+      if (current.length > 0 && joined > budget) {
+        chunks.push(render(current));
+        current = this.overlap(current, Math.min(this.config.chunkOverlap, budget - unit.tokens - 1));
+        tokens = current.reduce((sum, item) => sum + item.tokens, 0);
+      }
+
+      if (current.length > 0) tokens += this.count(unit.separator);
+      current.push(unit);
+      tokens += unit.tokens;
+    }
+
+    if (current.length > 0) chunks.push(render(current));
+    return chunks;
+  }
+
+  /**
+   * The trailing units of a chunk that fit in `limit` tokens, never the
+   * whole chunk. Prose is cut at sentence boundaries so a long paragraph
+   * still contributes its last sentences.
+   */
+  private overlap(chunk: Unit[], limit: number): Unit[] {
+    const tail: Unit[] = [];
+    let tokens = 0;
+    if (limit <= 0) return tail;
+
+    for (let i = chunk.length - 1; i >= 0; i--) {
+      const unit = chunk[i];
+
+      if (i > 0 && tokens + unit.tokens <= limit) {
+        tail.unshift(unit);
+        tokens += unit.tokens;
+        continue;
+      }
+
+      if (unit.prose) {
+        const sentences = splitSentences(unit.text);
+        const kept: string[] = [];
+        // Stop before taking every sentence, which would repeat the unit whole
+        for (let s = sentences.length - 1; s > 0; s--) {
+          const candidate = [sentences[s], ...kept].join(' ');
+          if (tokens + this.count(candidate) > limit) break;
+          kept.unshift(sentences[s]);
+        }
+        if (kept.length > 0) {
+          const text = kept.join(' ');
+          tail.unshift({ ...unit, text, tokens: this.count(text) });
+        }
+      }
+      break;
+    }
+
+    return tail;
+  }
+}
@@ -0,0 +1,84 @@
+import type { ChatSource, CitableSection } from '@/types/chat';
+import type { AppItem, ExperienceItem } from '@/types/content';
+import type { RetrievedChunk } from '@/lib/rag/types';
+
+const CITABLE_SECTIONS: CitableSection[] = ['apps', 'experience', 'education'];
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function asPage(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Turn a retrieved chunk into a citation. Chunks that came from a portfolio
+ * item keep its section and id so the UI can open the matching DetailModal;
+ * documents whose front matter names a project link to that project.
+ * PDF chunks carry the pages they came from.
+ */
+export function toChatSource(chunk: RetrievedChunk): ChatSource {
+  const { metadata } = chunk;
+  const source = asString(metadata.source) ?? 'unknown';
+  const projectId = asString(metadata.projectId);
+  const section = (asString(metadata.section) ?? (projectId ? 'apps' : undefined)) as CitableSection | undefined;
+  const itemId = asString(metadata.itemId) ?? projectId;
+  const headingPath = asString(metadata.headingPath);
+  const pageStart = asPage(metadata.pageStart);
+  const pageEnd = asPage(metadata.pageEnd) ?? pageStart;
+
+  return {
+    type: asString(metadata.type) ?? 'document',
+    source,
+    title: asString(metadata.title) ?? source,
+    ...(section && CITABLE_SECTIONS.includes(section) ? { section } : {}),
+    ...(itemId ? { itemId } : {}),
+    ...(headingPath ? { headingPath } : {}),
+    ...(pageStart ? { pageStart, pageEnd } : {}),
+  };
+}
+
+/** Citations for portfolio items, matching those of their ingested chunks */
+export function projectSource(app: AppItem): ChatSource {
+  return { type: 'project', source: 'website', title: app.title, section: 'apps', itemId: app.id };
+}
+
+export function experienceSource(exp: ExperienceItem): ChatSource {
+  return { type: 'experience', source: 'website', title: `${exp.role} at ${exp.company}`, section: 'experience', itemId: exp.id };
+}
+
+export const ABOUT_SOURCE: ChatSource = { type: 'about', source: 'website', title: 'About Harishraj' };
+
+function sourceKey(source: ChatSource): string {
+  // Different pages of one PDF are separate citations
+  return source.itemId
+    ? `${source.section}:${source.itemId}`
+    : `${source.source}:${source.title}:${source.pageStart ?? ''}`;
+}
+
+/**
+ * Unique citations, in the order given
+ */
+export function uniqueSources(sources: ChatSource[], limit: number = 5): ChatSource[] {
+  const seen = new Set<string>();
+  const unique: ChatSource[] = [];
+
+  for (const source of sources) {
+    const key = sourceKey(source);
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    unique.push(source);
+    if (unique.length >= limit) break;
+  }
+
+  return unique;
+}
+
+/**
+ * Unique citations for a set of chunks, in retrieval order
+ */
+export function collectSources(chunks: RetrievedChunk[], limit: number = 5): ChatSource[] {
+  return uniqueSources(chunks.map(toChatSource), limit);
+}
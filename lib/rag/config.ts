@@ -0,0 +1,171 @@
+import path from 'path';
+import { ANSWER_CACHE_KINDS, type AnswerCacheConfig, type AnswerCacheKind } from '@/lib/rag/answer-cache';
+import { CHUNK_STRATEGIES, type ChunkingConfig, type ChunkStrategy } from '@/lib/rag/chunker';
+import type { GuardrailConfig } from '@/lib/rag/guardrails';
+import type { RerankerKind } from '@/lib/rag/reranker';
+
+export type ProviderKind = 'openai' | 'openai-compatible' | 'stub';
+
+export interface ChatModelConfig {
+  provider: ProviderKind;
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  /** Past user/assistant exchanges included in prompts and query rewriting */
+  historyTurns: number;
+  /** Let the model call the portfolio tools alongside retrieval */
+  tools: boolean;
+}
+
+export interface EmbeddingModelConfig {
+  provider: ProviderKind;
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+  /** Only used by the stub provider, real models have a fixed size */
+  dimensions: number;
+}
+
+export interface RetrievalConfig {
+  /** Chunks handed to the prompt */
+  topK: number;
+  /** Candidates pulled from each retriever before fusion */
+  candidates: number;
+  vectorWeight: number;
+  lexicalWeight: number;
+  /** The k constant of reciprocal rank fusion */
+  rrfK: number;
+  reranker: RerankerKind;
+}
+
+export interface IngestionConfig {
+  /** Where the record of ingested chunk ids is kept */
+  manifestPath: string;
+  /** Inputs sent in one embeddings request */
+  embeddingBatchSize: number;
+  /** Embedding requests in flight at once */
+  embeddingConcurrency: number;
+  /** Retries for rate-limited or transient embedding and upsert failures */
+  maxRetries: number;
+}
+
+export interface RagConfig {
+  chat: ChatModelConfig;
+  embeddings: EmbeddingModelConfig;
+  retrieval: RetrievalConfig;
+  ingestion: IngestionConfig;
+  chunking: ChunkingConfig;
+  guardrails: GuardrailConfig;
+  cache: AnswerCacheConfig;
+}
+
+const PROVIDER_KINDS: ProviderKind[] = ['openai', 'openai-compatible', 'stub'];
+const RERANKER_KINDS: RerankerKind[] = ['none', 'lexical', 'llm'];
+
+function parseProvider(value: string | undefined, fallback: ProviderKind): ProviderKind {
+  if (!value) return fallback;
+  const kind = value.toLowerCase() as ProviderKind;
+  if (!PROVIDER_KINDS.includes(kind)) {
+    throw new Error(`Unknown provider "${value}". Expected one of: ${PROVIDER_KINDS.join(', ')}`);
+  }
+  return kind;
+}
+
+function parseReranker(value: string | undefined): RerankerKind {
+  if (!value) return 'none';
+  const kind = value.toLowerCase() as RerankerKind;
+  if (!RERANKER_KINDS.includes(kind)) {
+    throw new Error(`Unknown reranker "${value}". Expected one of: ${RERANKER_KINDS.join(', ')}`);
+  }
+  return kind;
+}
+
+function parseChunkStrategy(value: string | undefined): ChunkStrategy {
+  if (!value) return 'markdown';
+  const strategy = value.toLowerCase() as ChunkStrategy;
+  if (!CHUNK_STRATEGIES.includes(strategy)) {
+    throw new Error(`Unknown chunk strategy "${value}". Expected one of: ${CHUNK_STRATEGIES.join(', ')}`);
+  }
+  return strategy;
+}
+
+function parseCacheKind(value: string | undefined): AnswerCacheKind {
+  if (!value) return 'memory';
+  const kind = value.toLowerCase() as AnswerCacheKind;
+  if (!ANSWER_CACHE_KINDS.includes(kind)) {
+    throw new Error(`Unknown answer cache "${value}". Expected one of: ${ANSWER_CACHE_KINDS.join(', ')}`);
+  }
+  return kind;
+}
+
+export function parseNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Expected a number but got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Read model and provider settings from env.
+ *
+ * LLM_PROVIDER picks the chat backend (openai, openai-compatible for Ollama or
+ * llama.cpp servers, or stub for offline runs). EMBEDDING_PROVIDER defaults
+ * to the same backend.
+ */
+export function loadRagConfig(env: NodeJS.ProcessEnv = process.env): RagConfig {
+  const chatProvider = parseProvider(env.LLM_PROVIDER, 'openai');
+  const embeddingProvider = parseProvider(env.EMBEDDING_PROVIDER, chatProvider);
+
+  return {
+    chat: {
+      provider: chatProvider,
+      apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+      baseURL: env.LLM_BASE_URL,
+      model: env.CHAT_MODEL || 'gpt-4o-mini',
+      temperature: parseNumber(env.CHAT_TEMPERATURE, 0.7),
+      maxTokens: parseNumber(env.CHAT_MAX_TOKENS, 500),
+      historyTurns: parseNumber(env.CHAT_HISTORY_TURNS, 3),
+      tools: env.CHAT_TOOLS?.toLowerCase() !== 'off',
+    },
+    embeddings: {
+      provider: embeddingProvider,
+      apiKey: env.EMBEDDING_API_KEY || env.LLM_API_KEY || env.OPENAI_API_KEY,
+      baseURL: env.EMBEDDING_BASE_URL || env.LLM_BASE_URL,
+      model: env.EMBEDDING_MODEL || 'text-embedding-3-small',
+      dimensions: parseNumber(env.STUB_EMBEDDING_DIMENSIONS, 256),
+    },
+    retrieval: {
+      topK: parseNumber(env.RETRIEVAL_TOP_K, 5),
+      candidates: parseNumber(env.RETRIEVAL_CANDIDATES, 20),
+      vectorWeight: parseNumber(env.RETRIEVAL_VECTOR_WEIGHT, 1),
+      lexicalWeight: parseNumber(env.RETRIEVAL_LEXICAL_WEIGHT, 1),
+      rrfK: parseNumber(env.RETRIEVAL_RRF_K, 60),
+      reranker: parseReranker(env.RERANKER),
+    },
+    ingestion: {
+      manifestPath: path.resolve(process.cwd(), env.RAG_MANIFEST_PATH || '.rag/ingest-manifest.json'),
+      embeddingBatchSize: parseNumber(env.EMBEDDING_BATCH_SIZE, 64),
+      embeddingConcurrency: parseNumber(env.EMBEDDING_CONCURRENCY, 2),
+      maxRetries: parseNumber(env.EMBEDDING_MAX_RETRIES, 5),
+    },
+    chunking: {
+      strategy: parseChunkStrategy(env.CHUNK_STRATEGY),
+      chunkSize: parseNumber(env.CHUNK_SIZE_TOKENS, 300),
+      chunkOverlap: parseNumber(env.CHUNK_OVERLAP_TOKENS, 50),
+    },
+    guardrails: {
+      enabled: env.GUARDRAILS?.toLowerCase() !== 'off',
+    },
+    cache: {
+      kind: parseCacheKind(env.ANSWER_CACHE),
+      filePath: path.resolve(process.cwd(), env.ANSWER_CACHE_PATH || '.rag/answer-cache.json'),
+      ttlSeconds: parseNumber(env.ANSWER_CACHE_TTL_SECONDS, 86400),
+      similarity: parseNumber(env.ANSWER_CACHE_SIMILARITY, 0),
+      maxEntries: parseNumber(env.ANSWER_CACHE_MAX_ENTRIES, 500),
+    },
+  };
+}
@@ -1,7 +1,13 @@
 import fs from 'fs';
 import path from 'path';
-// pdf-parse uses CommonJS, so we need to use require for compatibility
-const pdf = require('pdf-parse');
+import mammoth from 'mammoth';
+import { Chunker, type Chunk, type ChunkingConfig } from '@/lib/rag/chunker';
+import { loadRagConfig } from '@/lib/rag/config';
+import { parseFrontMatter, type DocumentVisibility } from '@/lib/rag/front-matter';
+import { htmlToStructuredText } from '@/lib/rag/html-to-text';
+import { jsonToStructuredText } from '@/lib/rag/json-to-text';
+import { extractPdfPages } from '@/lib/rag/pdf-text';
+import type { CitableSection } from '@/types/chat';
 
 export interface ProcessedDocument {
   text: string;
@@ -10,38 +16,71 @@ export interface ProcessedDocument {
     type: string;
     chunkIndex?: number;
     totalChunks?: number;
+    /** Human-readable label used when citing the chunk */
+    title?: string;
+    /** Portfolio section and item id, set for chunks built from contentData */
+    section?: CitableSection;
+    itemId?: string;
+    /** Headings above the chunk, e.g. "DevContext > Architecture > Sync" */
+    headingPath?: string;
+    /** Pages of a PDF the chunk spans, from 1 */
+    pageStart?: number;
+    pageEnd?: number;
+    /** Set from markdown front matter */
+    tags?: string[];
+    projectId?: string;
+    visibility?: DocumentVisibility;
   };
 }
 
+type DocumentAnnotations = Pick<ProcessedDocument['metadata'], 'title' | 'tags' | 'projectId' | 'visibility'>;
+
+/**
+ * File extensions processFile knows how to load
+ */
+export const SUPPORTED_EXTENSIONS = ['.pdf', '.txt', '.md', '.docx', '.html', '.htm', '.json'];
+
+/**
+ * Outcome of loading a directory without stopping at the first bad file
+ */
+export interface DirectoryReport {
+  documents: ProcessedDocument[];
+  /** Files with an unsupported extension, relative to the directory and "/"-separated like chunk sources */
+  skippedFiles: string[];
+  /** Files that could not be read or parsed */
+  failedFiles: Array<{ file: string; error: string }>;
+  /** Files left out by the caller's filter */
+  excludedFiles: string[];
+}
+
+/**
+ * Path of a file relative to the directory it was loaded from, with "/"
+ * separators on every platform; used as the `source` of its chunks
+ */
+function toSourcePath(dirPath: string, filePath: string): string {
+  return path.relative(dirPath, filePath).split(path.sep).join('/');
+}
+
 export class DocumentProcessor {
-  private chunkSize: number;
-  private chunkOverlap: number;
+  private chunker: Chunker;
 
-  constructor(chunkSize: number = 1000, chunkOverlap: number = 200) {
-    this.chunkSize = chunkSize;
-    this.chunkOverlap = chunkOverlap;
+  /**
+   * Chunking follows CHUNK_STRATEGY, CHUNK_SIZE_TOKENS and CHUNK_OVERLAP_TOKENS unless given
+   */
+  constructor(chunking: ChunkingConfig = loadRagConfig().chunking) {
+    this.chunker = new Chunker(chunking);
   }
 
   /**
-   * Process a PDF file
+   * Process a PDF file page by page. Running headers and footers are
+   * removed and every chunk records the pages it spans.
    */
-  async processPDF(filePath: string): Promise<ProcessedDocument[]> {
+  async processPDF(filePath: string, source: string = path.basename(filePath)): Promise<ProcessedDocument[]> {
     try {
-      const dataBuffer = fs.readFileSync(filePath);
-      const data = await pdf(dataBuffer);
-      
-      const chunks = this.chunkText(data.text);
-      const fileName = path.basename(filePath);
-
-      return chunks.map((chunk, index) => ({
-        text: chunk,
-        metadata: {
-          source: fileName,
-          type: 'pdf',
-          chunkIndex: index,
-          totalChunks: chunks.length,
-        },
-      }));
+      const pages = await extractPdfPages(fs.readFileSync(filePath));
+      const text = pages.map((page) => page.text).join('\f');
+
+      return this.toDocuments(this.chunker.split(text, { paged: true }), source, 'pdf');
     } catch (error) {
       console.error(`Error processing PDF ${filePath}:`, error);
       throw error;
@@ -51,21 +90,10 @@ export class DocumentProcessor {
   /**
    * Process a text file
    */
-  async processTextFile(filePath: string): Promise<ProcessedDocument[]> {
+  async processTextFile(filePath: string, source: string = path.basename(filePath)): Promise<ProcessedDocument[]> {
     try {
       const content = fs.readFileSync(filePath, 'utf-8');
-      const chunks = this.chunkText(content);
-      const fileName = path.basename(filePath);
-
-      return chunks.map((chunk, index) => ({
-        text: chunk,
-        metadata: {
-          source: fileName,
-          type: 'text',
-          chunkIndex: index,
-          totalChunks: chunks.length,
-        },
-      }));
+      return this.toDocuments(this.chunker.split(content), source, 'text');
     } catch (error) {
       console.error(`Error processing text file ${filePath}:`, error);
       throw error;
@@ -73,32 +101,18 @@ export class DocumentProcessor {
   }
 
   /**
-   * Process a markdown file
+   * Process a markdown file. YAML front matter becomes chunk metadata;
+   * documents marked `visibility: private` are not ingested.
    */
-  async processMarkdown(filePath: string): Promise<ProcessedDocument[]> {
+  async processMarkdown(filePath: string, source: string = path.basename(filePath)): Promise<ProcessedDocument[]> {
     try {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      
-      // Split by headers to maintain semantic meaning
-      const sections = this.splitByMarkdownHeaders(content);
-      const fileName = path.basename(filePath);
-
-      return sections.map((section, index) => {
-        // Further chunk if section is too large
-        const chunks = section.length > this.chunkSize 
-          ? this.chunkText(section)
-          : [section];
-
-        return chunks.map((chunk, chunkIdx) => ({
-          text: chunk,
-          metadata: {
-            source: fileName,
-            type: 'markdown',
-            chunkIndex: index * chunks.length + chunkIdx,
-            totalChunks: sections.length * chunks.length,
-          },
-        }));
-      }).flat();
+      const { frontMatter, body } = parseFrontMatter(fs.readFileSync(filePath, 'utf-8'));
+      if (frontMatter.visibility === 'private') {
+        console.log(`Skipping private document ${filePath}`);
+        return [];
+      }
+
+      return this.chunkStructuredText(body, source, 'markdown', frontMatter);
     } catch (error) {
       console.error(`Error processing markdown file ${filePath}:`, error);
       throw error;
@@ -106,9 +120,75 @@ export class DocumentProcessor {
   }
 
   /**
-   * Process all documents in a directory
+   * Process a Word document. Headings, lists and tables are kept by going
+   * through HTML rather than mammoth's raw-text extraction.
+   */
+  async processDocx(filePath: string, source: string = path.basename(filePath)): Promise<ProcessedDocument[]> {
+    try {
+      const { value: html } = await mammoth.convertToHtml({ path: filePath });
+      const { text } = htmlToStructuredText(html);
+      return this.chunkStructuredText(text, source, 'docx');
+    } catch (error) {
+      console.error(`Error processing Word document ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Process an HTML page; scripts, styles and navigation are dropped
+   */
+  async processHTML(filePath: string, source: string = path.basename(filePath)): Promise<ProcessedDocument[]> {
+    try {
+      const { title, text } = htmlToStructuredText(fs.readFileSync(filePath, 'utf-8'));
+      return this.chunkStructuredText(text, source, 'html', { title });
+    } catch (error) {
+      console.error(`Error processing HTML file ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Process a JSON file such as a LinkedIn data export
    */
-  async processDirectory(dirPath: string): Promise<ProcessedDocument[]> {
+  async processJSON(filePath: string, source: string = path.basename(filePath)): Promise<ProcessedDocument[]> {
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return this.chunkStructuredText(jsonToStructuredText(data), source, 'json');
+    } catch (error) {
+      console.error(`Error processing JSON file ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Process a single file, or return null when its type is not supported.
+   * `source` names the file in chunk metadata; the directory loaders pass
+   * its path relative to the directory.
+   */
+  async processFile(filePath: string, source: string = path.basename(filePath)): Promise<ProcessedDocument[] | null> {
+    const ext = path.extname(filePath).toLowerCase();
+
+    if (ext === '.pdf') {
+      return this.processPDF(filePath, source);
+    } else if (ext === '.txt') {
+      return this.processTextFile(filePath, source);
+    } else if (ext === '.md') {
+      return this.processMarkdown(filePath, source);
+    } else if (ext === '.docx') {
+      return this.processDocx(filePath, source);
+    } else if (ext === '.html' || ext === '.htm') {
+      return this.processHTML(filePath, source);
+    } else if (ext === '.json') {
+      return this.processJSON(filePath, source);
+    }
+    return null;
+  }
+
+  /**
+   * Process all documents in a directory. Chunks name their file by its path
+   * relative to `rootDir`, so same-named files in different subfolders stay apart.
+   */
+  async processDirectory(dirPath: string, rootDir: string = dirPath): Promise<ProcessedDocument[]> {
     const documents: ProcessedDocument[] = [];
     
     try {
@@ -120,20 +200,14 @@ export class DocumentProcessor {
 
         if (stat.isDirectory()) {
           // Recursively process subdirectories
-          const subDocs = await this.processDirectory(filePath);
+          const subDocs = await this.processDirectory(filePath, rootDir);
           documents.push(...subDocs);
         } else {
-          const ext = path.extname(file).toLowerCase();
-          
-          if (ext === '.pdf') {
-            const docs = await this.processPDF(filePath);
-            documents.push(...docs);
-          } else if (ext === '.txt') {
-            const docs = await this.processTextFile(filePath);
-            documents.push(...docs);
-          } else if (ext === '.md') {
-            const docs = await this.processMarkdown(filePath);
+          const docs = await this.processFile(filePath, toSourcePath(rootDir, filePath));
+          if (docs) {
             documents.push(...docs);
+          } else if (!file.startsWith('.')) {
+            console.log(`Skipping unsupported file ${filePath}`);
           }
         }
       }
@@ -146,67 +220,89 @@ export class DocumentProcessor {
   }
 
   /**
-   * Split text into chunks with overlap
+   * Like processDirectory, but a file that fails to load is recorded and
+   * skipped instead of aborting the whole directory. A missing directory
+   * counts as empty. Files for which `filter` returns false are not loaded.
    */
-  private chunkText(text: string): string[] {
-    const chunks: string[] = [];
-    
-    // Clean and normalize text
-    const cleanedText = text
-      .replace(/\n{3,}/g, '\n\n') // Replace multiple newlines
-      .replace(/\s+/g, ' ') // Replace multiple spaces
-      .trim();
-
-    // Split by sentences to avoid breaking mid-sentence
-    const sentences = cleanedText.match(/[^.!?]+[.!?]+/g) || [cleanedText];
-    
-    let currentChunk = '';
-    
-    for (const sentence of sentences) {
-      if ((currentChunk + sentence).length > this.chunkSize && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        
-        // Add overlap from the end of the previous chunk
-        const words = currentChunk.split(' ');
-        const overlapWords = words.slice(-Math.floor(this.chunkOverlap / 5));
-        currentChunk = overlapWords.join(' ') + ' ' + sentence;
-      } else {
-        currentChunk += sentence;
+  async processDirectoryWithReport(
+    dirPath: string,
+    filter?: (relativePath: string) => boolean
+  ): Promise<DirectoryReport> {
+    const report: DirectoryReport = { documents: [], skippedFiles: [], failedFiles: [], excludedFiles: [] };
+    if (!fs.existsSync(dirPath)) return report;
+
+    const visit = async (currentDir: string) => {
+      for (const entry of fs.readdirSync(currentDir, { withFileTypes: true })) {
+        const filePath = path.join(currentDir, entry.name);
+        const relativePath = toSourcePath(dirPath, filePath);
+
+        if (entry.isDirectory()) {
+          await visit(filePath);
+          continue;
+        }
+
+        if (filter && !filter(relativePath)) {
+          report.excludedFiles.push(relativePath);
+          continue;
+        }
+
+        try {
+          const docs = await this.processFile(filePath, relativePath);
+          if (docs) {
+            report.documents.push(...docs);
+          } else if (!entry.name.startsWith('.')) {
+            // Dotfiles such as .DS_Store are not worth reporting
+            report.skippedFiles.push(relativePath);
+          }
+        } catch (error) {
+          report.failedFiles.push({
+            file: relativePath,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
       }
-    }
-    
-    if (currentChunk.trim().length > 0) {
-      chunks.push(currentChunk.trim());
-    }
+    };
 
-    return chunks;
+    await visit(dirPath);
+    return report;
   }
 
   /**
-   * Split markdown content by headers to maintain context
+   * Chunk markdown-like text along its headings. With the markdown strategy
+   * every chunk starts with its heading breadcrumb so it still says where it
+   * came from once it is retrieved on its own.
    */
-  private splitByMarkdownHeaders(content: string): string[] {
-    const sections: string[] = [];
-    const lines = content.split('\n');
-    let currentSection = '';
-
-    for (const line of lines) {
-      // Check if line is a header (starts with #)
-      if (line.match(/^#{1,6}\s/)) {
-        if (currentSection.trim().length > 0) {
-          sections.push(currentSection.trim());
-        }
-        currentSection = line + '\n';
-      } else {
-        currentSection += line + '\n';
-      }
-    }
-
-    if (currentSection.trim().length > 0) {
-      sections.push(currentSection.trim());
-    }
+  private chunkStructuredText(
+    content: string,
+    fileName: string,
+    type: string,
+    annotations: DocumentAnnotations = {}
+  ): ProcessedDocument[] {
+    const chunks = this.chunker.split(content, { markdown: true, title: annotations.title });
+    return this.toDocuments(chunks, fileName, type, annotations);
+  }
 
-    return sections;
+  private toDocuments(
+    chunks: Chunk[],
+    fileName: string,
+    type: string,
+    annotations: DocumentAnnotations = {}
+  ): ProcessedDocument[] {
+    const { title, ...extra } = annotations;
+
+    return chunks.map((chunk) => ({
+      text: chunk.text,
+      metadata: {
+        source: fileName,
+        type,
+        chunkIndex: chunk.index,
+        totalChunks: chunk.total,
+        ...(title ? { title } : {}),
+        ...(chunk.headingPath ? { headingPath: chunk.headingPath } : {}),
+        ...(chunk.pageStart ? { pageStart: chunk.pageStart, pageEnd: chunk.pageEnd } : {}),
+        ...Object.fromEntries(Object.entries(extra).filter(([, value]) => value !== undefined)),
+      },
+    }));
   }
 
   /**
@@ -236,6 +332,9 @@ Learnings: ${app.learned.join(', ')}
           metadata: {
             source: source,
             type: 'project',
+            title: app.title,
+            section: 'apps',
+            itemId: app.id,
           },
         });
       });
@@ -257,6 +356,9 @@ Impact: ${JSON.stringify(exp.impact)}
           metadata: {
             source: source,
             type: 'experience',
+            title: `${exp.role} at ${exp.company}`,
+            section: 'experience',
+            itemId: exp.id,
           },
         });
       });
@@ -278,6 +380,9 @@ Projects: ${edu.projects.join(', ')}
           metadata: {
             source: source,
             type: 'education',
+            title: `${edu.degreeLevel} in ${edu.program}`,
+            section: 'education',
+            itemId: edu.id,
           },
         });
       });
@@ -306,6 +411,7 @@ LinkedIn: ${data.about.contact.linkedin}
         metadata: {
           source: source,
           type: 'about',
+          title: 'About Harishraj',
         },
       });
     }
@@ -0,0 +1,178 @@
+import { toChatSource } from '@/lib/rag/citations';
+import type { GuardrailCategory } from '@/lib/rag/guardrails';
+import type { RAGAnswer, RetrievedChunk } from '@/lib/rag/types';
+import type { ChatHistoryMessage, ChatSource } from '@/types/chat';
+
+/**
+ * One golden question. Source ids are "section:itemId" for portfolio items
+ * (e.g. "experience:factoryspace-ai-engineer"), "website:about" for the bio
+ * and the file name for documents (e.g. "Harishraj_resume.pdf").
+ */
+export interface EvalCase {
+  id: string;
+  question: string;
+  history?: ChatHistoryMessage[];
+  /** Sources that should be among the top k retrieved chunks */
+  expectedSources?: string[];
+  /** Facts the answer should state; an array lists acceptable phrasings of one fact */
+  expectedFacts?: Array<string | string[]>;
+  /** The guardrail that should refuse the question; unset means it must be answered */
+  expectRefusal?: GuardrailCategory;
+}
+
+export interface EvalSet {
+  version: number;
+  description?: string;
+  cases: EvalCase[];
+}
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  /** Source ids of the retrieved chunks, best first, deduplicated */
+  retrieved: string[];
+  /** Share of expected sources in the top k; null when the case expects none */
+  recall: number | null;
+  coveredFacts: string[];
+  missingFacts: string[];
+  /** Share of expected facts in the answer; null when the case expects none */
+  factCoverage: number | null;
+  refused?: GuardrailCategory;
+  refusalCorrect: boolean;
+  answer: string;
+  latencyMs: number;
+}
+
+export interface EvalMetrics {
+  /** Mean recall@k over cases with expected sources */
+  recallAtK: number;
+  /** Mean fact coverage over cases with expected facts */
+  factCoverage: number;
+  /** Share of cases refused exactly when expected */
+  refusalAccuracy: number;
+  cases: number;
+}
+
+export interface EvalReport {
+  evalSetVersion: number;
+  createdAt: string;
+  k: number;
+  /** Providers, models and retrieval/chunking settings the run used */
+  config: Record<string, unknown>;
+  metrics: EvalMetrics;
+  cases: EvalCaseResult[];
+}
+
+/**
+ * The part of RAGService an eval run needs
+ */
+export interface EvalTarget {
+  retrieve(question: string, history?: ChatHistoryMessage[]): Promise<RetrievedChunk[]>;
+  query(question: string, history?: ChatHistoryMessage[]): Promise<RAGAnswer>;
+}
+
+export function sourceId(source: ChatSource): string {
+  if (source.section && source.itemId) return `${source.section}:${source.itemId}`;
+  return source.source === 'website' ? `website:${source.type}` : source.source;
+}
+
+/**
+ * Lowercase words and numbers only, so "85%" matches "85 %" and "Mistral-7B" matches "mistral 7b"
+ */
+function normalize(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9@.]+/g, ' ').replace(/\.(?=\s|$)/g, '').replace(/\s+/g, ' ').trim()} `;
+}
+
+export function recallAtK(expected: string[], retrieved: string[], k: number): number | null {
+  if (expected.length === 0) return null;
+  const top = new Set(retrieved.slice(0, k));
+  return expected.filter((id) => top.has(id)).length / expected.length;
+}
+
+export function scoreFacts(answer: string, facts: Array<string | string[]>): Pick<EvalCaseResult, 'coveredFacts' | 'missingFacts' | 'factCoverage'> {
+  const text = normalize(answer);
+  const coveredFacts: string[] = [];
+  const missingFacts: string[] = [];
+
+  facts.forEach((fact) => {
+    const phrasings = Array.isArray(fact) ? fact : [fact];
+    const found = phrasings.some((phrasing) => text.includes(normalize(phrasing)));
+    (found ? coveredFacts : missingFacts).push(phrasings[0]);
+  });
+
+  return {
+    coveredFacts,
+    missingFacts,
+    factCoverage: facts.length > 0 ? coveredFacts.length / facts.length : null,
+  };
+}
+
+function mean(values: Array<number | null>): number {
+  const scored = values.filter((value): value is number => value !== null);
+  return scored.length > 0 ? scored.reduce((sum, value) => sum + value, 0) / scored.length : 1;
+}
+
+export function summarize(results: EvalCaseResult[]): EvalMetrics {
+  return {
+    recallAtK: mean(results.map((result) => result.recall)),
+    factCoverage: mean(results.map((result) => result.factCoverage)),
+    refusalAccuracy: mean(results.map((result) => (result.refusalCorrect ? 1 : 0))),
+    cases: results.length,
+  };
+}
+
+/**
+ * Run one case: retrieval is scored on its own, then the full query is
+ * answered and scored for facts and refusals
+ */
+export async function runEvalCase(target: EvalTarget, testCase: EvalCase, k: number): Promise<EvalCaseResult> {
+  const history = testCase.history ?? [];
+  const startedAt = Date.now();
+
+  // A refused question never reaches retrieval
+  const chunks = testCase.expectRefusal ? [] : await target.retrieve(testCase.question, history);
+  const result = await target.query(testCase.question, history);
+
+  const retrieved = Array.from(new Set(chunks.map((chunk) => sourceId(toChatSource(chunk)))));
+
+  return {
+    id: testCase.id,
+    question: testCase.question,
+    retrieved,
+    recall: recallAtK(testCase.expectedSources ?? [], retrieved, k),
+    ...scoreFacts(result.refused ? '' : result.answer, testCase.expectedFacts ?? []),
+    ...(result.refused ? { refused: result.refused } : {}),
+    refusalCorrect: result.refused === testCase.expectRefusal,
+    answer: result.answer,
+    latencyMs: Date.now() - startedAt,
+  };
+}
+
+/**
+ * Metric changes from a baseline report, and the cases that got worse
+ */
+export function compareReports(baseline: EvalReport, current: EvalReport) {
+  const before = new Map(baseline.cases.map((result) => [result.id, result]));
+
+  const regressions = current.cases.flatMap((result) => {
+    const previous = before.get(result.id);
+    if (!previous) return [];
+
+    const reasons: string[] = [];
+    if ((result.recall ?? 1) < (previous.recall ?? 1)) reasons.push(`recall ${previous.recall} → ${result.recall}`);
+    if ((result.factCoverage ?? 1) < (previous.factCoverage ?? 1)) {
+      reasons.push(`facts ${previous.factCoverage} → ${result.factCoverage} (missing: ${result.missingFacts.join(', ')})`);
+    }
+    if (previous.refusalCorrect && !result.refusalCorrect) reasons.push('refusal now wrong');
+    return reasons.length > 0 ? [{ id: result.id, reasons }] : [];
+  });
+
+  return {
+    deltas: {
+      recallAtK: current.metrics.recallAtK - baseline.metrics.recallAtK,
+      factCoverage: current.metrics.factCoverage - baseline.metrics.factCoverage,
+      refusalAccuracy: current.metrics.refusalAccuracy - baseline.metrics.refusalAccuracy,
+    },
+    regressions,
+  };
+}
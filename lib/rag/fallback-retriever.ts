@@ -0,0 +1,81 @@
+import path from 'path';
+import { contentData } from '@/lib/data';
+import { DocumentProcessor, type ProcessedDocument } from '@/lib/rag/document-processor';
+import { TfIdfIndex } from '@/lib/rag/tfidf';
+import type { RetrievedChunk } from '@/lib/rag/types';
+import { toVectorMetadata } from '@/lib/rag/vector-store';
+
+// After files failed to load, try them again on a request this much later
+const FAILED_FILES_RETRY_MS = 5 * 60 * 1000;
+
+/**
+ * Retriever used when no vector store is available. Ranks the website data
+ * and the documents/ folder with TF-IDF, so any phrasing of a question gets
+ * the most relevant context without embeddings.
+ */
+export class FallbackRetriever {
+  private documentsDir: string;
+  private chunks: RetrievedChunk[] = [];
+  private index: TfIdfIndex | null = null;
+  private building: Promise<TfIdfIndex> | null = null;
+  /** Epoch ms after which the index is rebuilt; null once every file loaded */
+  private retryAt: number | null = null;
+
+  constructor(documentsDir: string = path.join(process.cwd(), 'documents')) {
+    this.documentsDir = documentsDir;
+  }
+
+  async retrieve(query: string, topK: number): Promise<RetrievedChunk[]> {
+    const index = await this.getIndex();
+    const matches = index.search(query, topK);
+
+    if (matches.length === 0) {
+      // Nothing matched (e.g. "hi") - answer from the bio rather than with no context at all
+      return this.chunks.filter((chunk) => chunk.metadata.type === 'about').slice(0, topK);
+    }
+
+    const chunksById = new Map(this.chunks.map((chunk) => [chunk.id, chunk]));
+    return matches.map((match) => ({ ...chunksById.get(match.id)!, score: match.score }));
+  }
+
+  private getIndex(): Promise<TfIdfIndex> {
+    if (this.index && (this.retryAt === null || Date.now() < this.retryAt)) {
+      return Promise.resolve(this.index);
+    }
+    if (!this.building) {
+      this.building = this.build().finally(() => {
+        this.building = null;
+      });
+    }
+    return this.building;
+  }
+
+  private async build(): Promise<TfIdfIndex> {
+    const processor = new DocumentProcessor();
+    const documents: ProcessedDocument[] = processor.processStructuredData(contentData, 'website');
+
+    let failed = false;
+    try {
+      // One unreadable file shouldn't cost the rest of the folder
+      const report = await processor.processDirectoryWithReport(this.documentsDir);
+      documents.push(...report.documents);
+      report.failedFiles.forEach(({ file, error }) => {
+        console.warn(`Fallback retriever: skipped ${file}: ${error}`);
+      });
+      failed = report.failedFiles.length > 0;
+    } catch (error) {
+      console.warn(`Fallback retriever: could not read ${this.documentsDir}, using website data only.`, error);
+      failed = true;
+    }
+    this.retryAt = failed ? Date.now() + FAILED_FILES_RETRY_MS : null;
+
+    this.chunks = documents.map((document, i) => ({
+      id: `fallback-${i}`,
+      text: document.text,
+      score: 0,
+      metadata: toVectorMetadata(document.metadata),
+    }));
+    this.index = new TfIdfIndex(this.chunks.map(({ id, text }) => ({ id, text })));
+    return this.index;
+  }
+}
@@ -0,0 +1,68 @@
+import { parse as parseYaml } from 'yaml';
+
+export type DocumentVisibility = 'public' | 'private';
+
+/**
+ * Metadata a markdown document can declare in YAML front matter:
+ *
+ * ---
+ * title: DevContext
+ * tags: [rag, tooling]
+ * project: devcontext
+ * visibility: public
+ * ---
+ */
+export interface FrontMatter {
+  title?: string;
+  tags?: string[];
+  /** Id of the portfolio project (contentData.apps) the document is about */
+  projectId?: string;
+  visibility: DocumentVisibility;
+}
+
+const FRONT_MATTER_PATTERN = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function asTags(value: unknown): string[] | undefined {
+  const tags = Array.isArray(value)
+    ? value.map(asText).filter((tag): tag is string => Boolean(tag))
+    : asText(value)?.split(',').map((tag) => tag.trim()).filter(Boolean);
+  return tags && tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Split YAML front matter off a markdown document. Documents without front
+ * matter are public with no extra metadata; malformed YAML throws so the
+ * file shows up as failed instead of being ingested with the YAML as text.
+ */
+export function parseFrontMatter(content: string): { frontMatter: FrontMatter; body: string } {
+  const match = content.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { frontMatter: { visibility: 'public' }, body: content };
+  }
+
+  const data = parseYaml(match[1]) ?? {};
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Front matter must be a YAML mapping');
+  }
+
+  const visibility = asText(data.visibility)?.toLowerCase() ?? 'public';
+  if (visibility !== 'public' && visibility !== 'private') {
+    throw new Error(`Unknown visibility "${visibility}" in front matter. Expected public or private.`);
+  }
+
+  return {
+    frontMatter: {
+      title: asText(data.title),
+      tags: asTags(data.tags),
+      projectId: asText(data.project ?? data.projectId),
+      visibility,
+    },
+    body: content.slice(match[0].length),
+  };
+}
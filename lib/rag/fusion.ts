@@ -0,0 +1,22 @@
+export interface RankedList {
+  /** Ids in rank order, best first */
+  ids: string[];
+  weight: number;
+}
+
+/**
+ * Weighted reciprocal rank fusion: score(id) = Σ weight / (k + rank).
+ * Only ranks matter, so scores from BM25 and cosine similarity never need
+ * to be put on the same scale.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = 60): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  for (const list of lists) {
+    list.ids.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + list.weight / (k + index + 1));
+    });
+  }
+
+  return scores;
+}
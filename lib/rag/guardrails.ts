@@ -0,0 +1,139 @@
+import type { ChatHistoryMessage } from '@/types/chat';
+
+export type GuardrailCategory = 'injection' | 'off_topic' | 'prompt_leak';
+
+export type GuardrailVerdict =
+  | { allowed: true }
+  | { allowed: false; category: GuardrailCategory; reason: string; refusal: string };
+
+export interface GuardrailConfig {
+  enabled: boolean;
+}
+
+/**
+ * Marker planted in the system prompt. It has no meaning to the model, so
+ * seeing it in an answer means the instructions were echoed back.
+ */
+export const PROMPT_CANARY = 'portfolio-guard-3f9c2a';
+
+const INJECTION_REFUSAL = "I can only help with questions about Harishraj's background, projects and experience, and I can't change how I work or share my instructions. Is there something about his work I can help with?";
+const OFF_TOPIC_REFUSAL = "I'm Harishraj's portfolio assistant, so I can only answer questions about his experience, projects, skills and education. For anything else, feel free to reach out to him directly at uharishraj@gmail.com!";
+
+const INJECTION_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  {
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(previous|prior|above|earlier|preceding|your|all|the|these|those|system)\b.{0,20}\b(instructions?|rules|prompts?|directions|guidelines|context)\b/i,
+    reason: 'asks to discard the instructions',
+  },
+  {
+    pattern: /\b(reveal|show|print|repeat|output|display|leak|tell me|what (?:is|are)|give me)\b.{0,30}\b(system|initial|original|hidden|secret|developer)\s+(prompt|instructions?|message|rules)\b/i,
+    reason: 'asks for the system prompt',
+  },
+  {
+    pattern: /\b(your|the)\s+(instructions|system prompt|guidelines)\s+(verbatim|word for word)\b/i,
+    reason: 'asks for the system prompt',
+  },
+  {
+    pattern: /\b(you are now|from now on,? you|pretend (?:to be|you are|you're)|act as if you|roleplay as|role-play as|you will now act)\b/i,
+    reason: 'tries to reassign the assistant role',
+  },
+  {
+    pattern: /\b(jailbreak|DAN mode|do anything now|developer mode|god mode|unfiltered mode)\b/i,
+    reason: 'jailbreak phrase',
+  },
+  {
+    pattern: /(^|\n)\s*(system|assistant)\s*:|<\|im_(start|end)\|>|\[\/?INST\]|###\s*(system|instruction)|<\/?(system|context)>/i,
+    reason: 'contains fake role or prompt delimiters',
+  },
+  {
+    pattern: /\bnew (instructions|rules)\s*:/i,
+    reason: 'injects new instructions',
+  },
+];
+
+// General-purpose assistant tasks that have nothing to do with the portfolio
+const OFF_TOPIC_PATTERNS: RegExp[] = [
+  /\b(write|compose|generate|draft|create)\b.{0,30}\b(poem|essay|story|song|lyrics|haiku|limerick|novel|joke|blog post|cover letter|tweet)\b/i,
+  /\b(write|generate|implement|code|debug|fix|refactor)\b.{0,40}\b(function|script|program|class|algorithm|regex|sql query|code)\b/i,
+  /\btranslate\b.{0,40}\b(into|to)\b/i,
+  /\b(solve|calculate|compute|integrate|differentiate|simplify)\b.{0,40}(\d|equation|integral|derivative|problem)/i,
+  /\b(recipe|weather|forecast|horoscope|stock price|lottery|sports? scores?)\b/i,
+  /\bwho (won|is the (president|prime minister|ceo))\b/i,
+  /\bwhat(?:'s| is) the capital of\b/i,
+  /\b(summari[sz]e|explain|teach me|tell me about)\b.{0,30}\b(history of|theory of|quantum|world war|photosynthesis|the universe|black holes?)\b/i,
+];
+
+// Any of these means the question is about Harishraj or his work
+const PORTFOLIO_PATTERN = /\b(harish(?:raj)?|bhaskar|(?:can|could|does|did|has|had|is|was|will|would)\s+he|portfolio|resume|cv|experience|projects?|skills?|tech stack|education|degree|university|internships?|career|worked|hire|hiring|recruit(?:er|ing)?|linkedin|github|background|publications?)\b/i;
+
+/**
+ * Input and output checks for the portfolio assistant.
+ *
+ * Classification is heuristic and runs offline: obvious prompt-injection
+ * attempts and general-purpose requests ("write me a poem") are refused
+ * before any retrieval or model call. Anything unclear is let through,
+ * since the system prompt already keeps the model on topic.
+ */
+export class Guardrails {
+  private config: GuardrailConfig;
+
+  constructor(config: GuardrailConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Check a question together with the earlier turns sent along with it.
+   * Pass only that window, so one flagged message doesn't refuse every
+   * later question of the conversation.
+   */
+  checkInput(query: string, conversationHistory: ChatHistoryMessage[] = []): GuardrailVerdict {
+    if (!this.config.enabled) return { allowed: true };
+
+    // Client-supplied history is as untrusted as the question itself
+    const userTexts = [query, ...conversationHistory.filter((msg) => msg.role === 'user').map((msg) => msg.content)];
+    for (const text of userTexts) {
+      const injection = INJECTION_PATTERNS.find(({ pattern }) => pattern.test(text));
+      if (injection) {
+        return block('injection', injection.reason);
+      }
+    }
+
+    if (OFF_TOPIC_PATTERNS.some((pattern) => pattern.test(query)) && !PORTFOLIO_PATTERN.test(query)) {
+      return block('off_topic', 'general-purpose request unrelated to the portfolio');
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Check a (possibly partial) answer before it reaches the visitor
+   */
+  checkOutput(answer: string): GuardrailVerdict {
+    if (!this.config.enabled) return { allowed: true };
+
+    if (answer.includes(PROMPT_CANARY)) {
+      return block('prompt_leak', 'answer repeats the system prompt');
+    }
+
+    return { allowed: true };
+  }
+}
+
+/**
+ * Neutralize delimiters in untrusted text (documents, website data) so it
+ * cannot close the context block and pose as instructions
+ */
+export function sanitizeContext(text: string): string {
+  return text
+    .replace(/<\/?(context|question|system)>/gi, '')
+    .replace(/<\|im_(start|end)\|>/g, '')
+    .replace(PROMPT_CANARY, '');
+}
+
+function block(category: GuardrailCategory, reason: string): GuardrailVerdict {
+  return {
+    allowed: false,
+    category,
+    reason,
+    refusal: category === 'off_topic' ? OFF_TOPIC_REFUSAL : INJECTION_REFUSAL,
+  };
+}
@@ -0,0 +1,177 @@
+import { parse, HTMLElement, Node, NodeType } from 'node-html-parser';
+
+export interface StructuredText {
+  /** The document <title>, when there is one */
+  title?: string;
+  /** Markdown-like text: # headings, - list items and | table | rows */
+  text: string;
+}
+
+// Never part of the readable content
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'head', 'nav', 'button', 'select']);
+
+// Elements that start a new block when they appear inside running text
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'blockquote', 'figure', 'figcaption',
+  'address', 'dl', 'dt', 'dd', 'form', 'fieldset', 'details', 'summary', 'li', 'tr', 'td', 'th', 'body', 'html',
+]);
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function isElement(node: Node): node is HTMLElement {
+  return node.nodeType === NodeType.ELEMENT_NODE;
+}
+
+function tagOf(element: HTMLElement): string {
+  return (element.rawTagName || '').toLowerCase();
+}
+
+/**
+ * Text of an element on one line, with link targets kept next to the link text
+ */
+function inlineText(node: Node, skipLists: boolean = false): string {
+  if (node.nodeType === NodeType.TEXT_NODE) return node.text;
+  if (!isElement(node)) return '';
+
+  const tag = tagOf(node);
+  if (SKIPPED_TAGS.has(tag)) return '';
+  if (skipLists && (tag === 'ul' || tag === 'ol')) return '';
+  if (tag === 'br') return ' ';
+  if (tag === 'img') return node.getAttribute('alt') ? ` ${node.getAttribute('alt')} ` : '';
+
+  const text = node.childNodes.map((child) => inlineText(child, skipLists)).join('');
+  const href = node.getAttribute?.('href');
+  if (tag === 'a' && href && /^https?:\/\//.test(href) && !text.includes(href)) {
+    return `${text} (${href})`;
+  }
+
+  return BLOCK_TAGS.has(tag) ? ` ${text} ` : text;
+}
+
+function renderList(list: HTMLElement, depth: number): string[] {
+  const ordered = tagOf(list) === 'ol';
+  const lines: string[] = [];
+  let position = 0;
+
+  for (const item of list.childNodes) {
+    if (!isElement(item) || tagOf(item) !== 'li') continue;
+    position++;
+
+    const text = collapseWhitespace(inlineText(item, true));
+    if (text) {
+      lines.push(`${'  '.repeat(depth)}${ordered ? `${position}.` : '-'} ${text}`);
+    }
+
+    // Nested lists keep their own indentation level
+    for (const nested of item.querySelectorAll('ul, ol')) {
+      if (nested.parentNode === item) {
+        lines.push(...renderList(nested, depth + 1));
+      }
+    }
+  }
+
+  return lines;
+}
+
+function renderTable(table: HTMLElement): string {
+  const rows: string[] = [];
+
+  table.querySelectorAll('tr').forEach((row, index) => {
+    const cells = row.childNodes.filter(
+      (cell): cell is HTMLElement => isElement(cell) && ['td', 'th'].includes(tagOf(cell))
+    );
+    if (cells.length === 0) return;
+
+    rows.push(`| ${cells.map((cell) => collapseWhitespace(inlineText(cell)).replace(/\|/g, '\\|')).join(' | ')} |`);
+    if (index === 0 && cells.every((cell) => tagOf(cell) === 'th')) {
+      rows.push(`| ${cells.map(() => '---').join(' | ')} |`);
+    }
+  });
+
+  return rows.join('\n');
+}
+
+class BlockWriter {
+  private blocks: string[] = [];
+  private pending = '';
+
+  text(text: string) {
+    this.pending += text;
+  }
+
+  flush() {
+    const text = collapseWhitespace(this.pending);
+    if (text) this.blocks.push(text);
+    this.pending = '';
+  }
+
+  block(text: string) {
+    this.flush();
+    if (text.trim()) this.blocks.push(text);
+  }
+
+  toString(): string {
+    this.flush();
+    return this.blocks.join('\n\n');
+  }
+}
+
+function walk(node: Node, writer: BlockWriter) {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    writer.text(node.text);
+    return;
+  }
+  if (!isElement(node)) return;
+
+  const tag = tagOf(node);
+  if (SKIPPED_TAGS.has(tag)) return;
+
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    const text = collapseWhitespace(inlineText(node));
+    if (text) writer.block(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    return;
+  }
+
+  switch (tag) {
+    case 'ul':
+    case 'ol':
+      writer.block(renderList(node, 0).join('\n'));
+      return;
+    case 'table':
+      writer.block(renderTable(node));
+      return;
+    case 'pre':
+      writer.block(node.text.trim());
+      return;
+    case 'br':
+    case 'hr':
+      writer.flush();
+      return;
+    case 'a':
+    case 'img':
+      writer.text(inlineText(node));
+      return;
+  }
+
+  const isBlock = BLOCK_TAGS.has(tag);
+  if (isBlock) writer.flush();
+  node.childNodes.forEach((child) => walk(child, writer));
+  if (isBlock) writer.flush();
+}
+
+/**
+ * Extract readable text from HTML, keeping headings, lists and tables in a
+ * markdown-like form so chunking can still follow the document structure
+ */
+export function htmlToStructuredText(html: string): StructuredText {
+  const root = parse(html, { comment: false });
+  const title = collapseWhitespace(root.querySelector('title')?.text ?? '') || undefined;
+
+  const writer = new BlockWriter();
+  walk(root.querySelector('body') ?? root, writer);
+
+  return { title, text: writer.toString() };
+}
@@ -0,0 +1,121 @@
+import { BM25Index } from '@/lib/rag/bm25';
+import type { RetrievalConfig } from '@/lib/rag/config';
+import { reciprocalRankFusion } from '@/lib/rag/fusion';
+import type { Reranker } from '@/lib/rag/reranker';
+import type { ChatTraceRecorder } from '@/lib/rag/tracing';
+import type { RetrievedChunk } from '@/lib/rag/types';
+import type { VectorStore } from '@/lib/rag/vector-store';
+
+// Rebuild the keyword index periodically so ingestion from another process shows up
+const LEXICAL_INDEX_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Combines vector search with a BM25 keyword index built over the same
+ * stored chunks, fuses both rankings and optionally reranks the result
+ */
+export class HybridRetriever {
+  private vectorStore: VectorStore;
+  private embed: (text: string, trace?: ChatTraceRecorder) => Promise<number[]>;
+  private reranker: Reranker;
+  private config: RetrievalConfig;
+  private lexicalIndex: BM25Index | null = null;
+  private lexicalChunks = new Map<string, RetrievedChunk>();
+  private lexicalBuiltAt = 0;
+
+  constructor(
+    vectorStore: VectorStore,
+    embed: (text: string, trace?: ChatTraceRecorder) => Promise<number[]>,
+    reranker: Reranker,
+    config: RetrievalConfig
+  ) {
+    this.vectorStore = vectorStore;
+    this.embed = embed;
+    this.reranker = reranker;
+    this.config = config;
+  }
+
+  /**
+   * Drop the cached keyword index, e.g. after new documents were ingested
+   */
+  invalidate(): void {
+    this.lexicalIndex = null;
+    this.lexicalChunks.clear();
+  }
+
+  /**
+   * Best `topK` chunks for a query; the embedding and rerank calls report their usage to `trace`
+   */
+  async retrieve(query: string, trace?: ChatTraceRecorder, topK: number = this.config.topK): Promise<RetrievedChunk[]> {
+    const { candidates, vectorWeight, lexicalWeight, rrfK } = this.config;
+
+    const [vectorChunks, lexicalChunks] = await Promise.all([
+      vectorWeight > 0 ? this.vectorSearch(query, candidates, trace) : Promise.resolve([]),
+      lexicalWeight > 0 ? this.lexicalSearch(query, candidates) : Promise.resolve([]),
+    ]);
+
+    const chunksById = new Map<string, RetrievedChunk>();
+    [...lexicalChunks, ...vectorChunks].forEach((chunk) => chunksById.set(chunk.id, chunk));
+
+    const fused = reciprocalRankFusion(
+      [
+        { ids: vectorChunks.map((chunk) => chunk.id), weight: vectorWeight },
+        { ids: lexicalChunks.map((chunk) => chunk.id), weight: lexicalWeight },
+      ],
+      rrfK
+    );
+
+    const ranked = Array.from(fused.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, candidates)
+      .map(([id, score]) => ({ ...chunksById.get(id)!, score }));
+
+    return this.reranker.rerank(query, ranked, topK, trace);
+  }
+
+  private async vectorSearch(query: string, topK: number, trace?: ChatTraceRecorder): Promise<RetrievedChunk[]> {
+    const queryEmbedding = await this.embed(query, trace);
+    const matches = await this.vectorStore.query(queryEmbedding, { topK });
+
+    return matches
+      .filter((match) => typeof match.metadata.text === 'string')
+      .map((match) => ({
+        id: match.id,
+        text: match.metadata.text as string,
+        score: match.score,
+        metadata: match.metadata,
+      }));
+  }
+
+  private async lexicalSearch(query: string, topK: number): Promise<RetrievedChunk[]> {
+    const index = await this.getLexicalIndex();
+    return index
+      .search(query, topK)
+      .map((match) => ({ ...this.lexicalChunks.get(match.id)!, score: match.score }));
+  }
+
+  private async getLexicalIndex(): Promise<BM25Index> {
+    if (this.lexicalIndex && Date.now() - this.lexicalBuiltAt < LEXICAL_INDEX_TTL_MS) {
+      return this.lexicalIndex;
+    }
+
+    const ids = await this.vectorStore.list();
+    const documents = await this.vectorStore.fetch(ids);
+
+    const index = new BM25Index();
+    this.lexicalChunks.clear();
+    documents.forEach((document) => {
+      if (typeof document.metadata.text !== 'string') return;
+      this.lexicalChunks.set(document.id, {
+        id: document.id,
+        text: document.metadata.text,
+        score: 0,
+        metadata: document.metadata,
+      });
+    });
+    index.add(Array.from(this.lexicalChunks.values()).map(({ id, text }) => ({ id, text })));
+
+    this.lexicalIndex = index;
+    this.lexicalBuiltAt = Date.now();
+    return index;
+  }
+}
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface IngestableDocument {
+  text: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ManifestEntry {
+  source: string;
+  hash: string;
+  ingestedAt: string;
+}
+
+interface ManifestFile {
+  version: 1;
+  /** Vector store the entries were written to; a different store starts a fresh manifest */
+  store: string;
+  /** Entries grouped by ingestion scope (website, documents, files, ...), keyed by chunk id */
+  scopes: Record<string, Record<string, ManifestEntry>>;
+}
+
+export function contentHash(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Stable chunk id derived from where the chunk came from, its position and
+ * its content. Re-ingesting unchanged content yields the same id; editing a
+ * chunk yields a new one, leaving the old id to be cleaned up as stale.
+ */
+export function chunkId(document: IngestableDocument): string {
+  const metadata = document.metadata ?? {};
+  const source = String(metadata.source ?? 'unknown')
+    .toLowerCase()
+    .replace(/[^a-z0-9./]+/g, '-');
+  const position = metadata.itemId ?? metadata.chunkIndex ?? 0;
+
+  return `${source}:${metadata.type ?? 'doc'}:${position}:${contentHash(document.text).slice(0, 16)}`;
+}
+
+/**
+ * Local record of which chunk ids have been written to the vector store
+ */
+export class IngestManifest {
+  private filePath: string;
+  private data: ManifestFile;
+
+  private constructor(filePath: string, data: ManifestFile) {
+    this.filePath = filePath;
+    this.data = data;
+  }
+
+  static load(filePath: string, store: string): IngestManifest {
+    let data: ManifestFile = { version: 1, store, scopes: {} };
+
+    if (fs.existsSync(filePath)) {
+      const existing = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ManifestFile;
+      if (existing.store === store) {
+        data = existing;
+      } else {
+        console.log(`Ingestion manifest belongs to ${existing.store}, starting a fresh one for ${store}`);
+      }
+    }
+
+    return new IngestManifest(filePath, data);
+  }
+
+  /** True when nothing has ever been recorded for this store */
+  get isEmpty(): boolean {
+    return Object.keys(this.data.scopes).length === 0;
+  }
+
+  /** Live view of a scope: record() and remove() show up in it */
+  entries(scope: string): Readonly<Record<string, ManifestEntry>> {
+    return this.data.scopes[scope] ?? {};
+  }
+
+  // Both update the scope in place; copying it on every call made an ingest run quadratic
+  record(scope: string, id: string, entry: ManifestEntry): void {
+    (this.data.scopes[scope] ??= {})[id] = entry;
+  }
+
+  remove(scope: string, ids: string[]): void {
+    const entries = this.data.scopes[scope];
+    if (!entries) return;
+    ids.forEach((id) => delete entries[id]);
+  }
+
+  save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
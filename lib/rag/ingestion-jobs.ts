@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { createStageProgress, ingestionOutcome, runIngestionPipeline } from '@/lib/rag/ingestion-pipeline';
+import type { IngestionJob, IngestionSource } from '@/types/ingest';
+
+// Finished jobs kept by the memory store before the oldest are dropped
+const MAX_MEMORY_JOBS = 50;
+
+// A running job is saved at least this often, even between progress updates
+const HEARTBEAT_MS = 60 * 1000;
+
+// Unfinished jobs not saved for this long belong to a process that is gone
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+/**
+ * Where job status is kept so it can be polled
+ */
+export interface IngestionJobStore {
+  get(id: string): Promise<IngestionJob | null>;
+  save(job: IngestionJob): Promise<void>;
+  list(): Promise<IngestionJob[]>;
+}
+
+/**
+ * Keeps jobs in process memory; lost on restart
+ */
+export class MemoryIngestionJobStore implements IngestionJobStore {
+  private jobs = new Map<string, IngestionJob>();
+
+  async get(id: string): Promise<IngestionJob | null> {
+    return this.jobs.get(id) ?? null;
+  }
+
+  async save(job: IngestionJob): Promise<void> {
+    this.jobs.set(job.id, job);
+    // Maps iterate in insertion order, so the first keys are the oldest jobs
+    const overflow = Array.from(this.jobs.keys()).slice(0, Math.max(0, this.jobs.size - MAX_MEMORY_JOBS));
+    overflow.forEach((id) => this.jobs.delete(id));
+  }
+
+  async list(): Promise<IngestionJob[]> {
+    return Array.from(this.jobs.values());
+  }
+}
+
+/**
+ * One JSON file per job, so status survives restarts and is visible to
+ * every server process sharing the directory
+ */
+export class FileIngestionJobStore implements IngestionJobStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async get(id: string): Promise<IngestionJob | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath(id), 'utf-8')) as IngestionJob;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(job: IngestionJob): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    // Write then rename so a poller never reads a half-written file
+    const tmpPath = `${this.filePath(job.id)}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(job, null, 2));
+    await fs.promises.rename(tmpPath, this.filePath(job.id));
+  }
+
+  async list(): Promise<IngestionJob[]> {
+    const files = await fs.promises.readdir(this.dir).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    });
+    const jobs = await Promise.all(
+      files.filter((file) => file.endsWith('.json')).map((file) => this.get(path.basename(file, '.json')))
+    );
+    return jobs.filter((job): job is IngestionJob => job !== null);
+  }
+}
+
+/**
+ * Serverless platforms stop a function once its response is sent, which
+ * would strand a background job mid-run
+ */
+export function isServerlessRuntime(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env.VERCEL || env.AWS_LAMBDA_FUNCTION_NAME || env.NETLIFY);
+}
+
+type RunPipeline = typeof runIngestionPipeline;
+
+/**
+ * Runs ingestion jobs in the background, one at a time. Jobs share the
+ * ingest manifest and vector store, so running them concurrently would race.
+ * Needs a long-running server: a job lives in this process until it ends.
+ */
+export class IngestionJobQueue {
+  private store: IngestionJobStore;
+  private runPipeline: RunPipeline;
+  private tail: Promise<void> = Promise.resolve();
+  private recovery: Promise<void> | null = null;
+
+  constructor(store: IngestionJobStore, runPipeline: RunPipeline = runIngestionPipeline) {
+    this.store = store;
+    this.runPipeline = runPipeline;
+  }
+
+  /**
+   * Queue a job and return it right away; poll get() for progress
+   */
+  async enqueue(
+    sources: IngestionSource[],
+    onFinished?: (job: IngestionJob) => void | Promise<void>
+  ): Promise<IngestionJob> {
+    await this.recoverStaleJobs();
+
+    const now = new Date().toISOString();
+    const job: IngestionJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      sources,
+      createdAt: now,
+      updatedAt: now,
+      stages: sources.map(createStageProgress),
+    };
+    await this.store.save(job);
+
+    this.tail = this.tail.then(async () => {
+      await this.run(job);
+      try {
+        await onFinished?.(job);
+      } catch (error) {
+        console.error(`Ingestion job ${job.id} finish hook failed:`, error);
+      }
+    });
+
+    return job;
+  }
+
+  async get(id: string): Promise<IngestionJob | null> {
+    await this.recoverStaleJobs();
+    return this.store.get(id);
+  }
+
+  /**
+   * Fail jobs left queued or running by a process that stopped, so they
+   * don't read as running forever. Runs once, on first use of the store.
+   */
+  private recoverStaleJobs(): Promise<void> {
+    this.recovery ??= (async () => {
+      const now = Date.now();
+      for (const job of await this.store.list()) {
+        if (job.status !== 'queued' && job.status !== 'running') continue;
+        if (now - Date.parse(job.updatedAt ?? job.startedAt ?? job.createdAt) < STALE_JOB_MS) continue;
+
+        const finishedAt = new Date(now).toISOString();
+        await this.store.save({
+          ...job,
+          status: 'failed',
+          error: 'Interrupted: the server stopped before the job finished',
+          finishedAt,
+          updatedAt: finishedAt,
+        });
+        console.warn(`Ingestion job ${job.id} was interrupted and is marked as failed`);
+      }
+    })().catch((error) => console.error('Could not recover interrupted ingestion jobs:', error));
+
+    return this.recovery;
+  }
+
+  private async run(job: IngestionJob): Promise<void> {
+    // Progress is saved in order; a slow write must not land after a newer one
+    let saving = Promise.resolve();
+    const persist = () => {
+      job.updatedAt = new Date().toISOString();
+      const snapshot = structuredClone(job);
+      saving = saving
+        .then(() => this.store.save(snapshot))
+        .catch((error) => console.error(`Could not save ingestion job ${job.id}:`, error));
+      return saving;
+    };
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    await persist();
+
+    // Tells other processes sharing the store that the job is still alive
+    const heartbeat = setInterval(() => void persist(), HEARTBEAT_MS);
+    heartbeat.unref();
+
+    try {
+      job.stages = await this.runPipeline(job.sources, {
+        onStageUpdate: (_stage, stages) => {
+          job.stages = stages;
+          void persist();
+        },
+      });
+      job.status = ingestionOutcome(job.stages);
+    } catch (error) {
+      console.error(`Ingestion job ${job.id} failed:`, error);
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    job.finishedAt = new Date().toISOString();
+    await persist();
+    console.log(`Ingestion job ${job.id} ${job.status}`);
+  }
+}
+
+let jobQueue: IngestionJobQueue | null = null;
+
+/**
+ * Shared job queue with a store picked from env: INGEST_JOB_STORE=memory
+ * (default) or file (INGEST_JOB_DIR), for several processes sharing a disk
+ */
+export function getIngestionJobQueue(env: NodeJS.ProcessEnv = process.env): IngestionJobQueue {
+  if (jobQueue) return jobQueue;
+
+  const kind = (env.INGEST_JOB_STORE || 'memory').toLowerCase();
+  switch (kind) {
+    case 'memory':
+      jobQueue = new IngestionJobQueue(new MemoryIngestionJobStore());
+      break;
+    case 'file':
+      jobQueue = new IngestionJobQueue(
+        new FileIngestionJobStore(path.resolve(process.cwd(), env.INGEST_JOB_DIR || '.rag/jobs'))
+      );
+      break;
+    default:
+      throw new Error(`Unknown INGEST_JOB_STORE "${kind}". Expected memory or file.`);
+  }
+
+  return jobQueue;
+}
@@ -0,0 +1,190 @@
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { contentData } from '@/lib/data';
+import { DocumentProcessor, type DirectoryReport } from '@/lib/rag/document-processor';
+import { RAGService } from '@/lib/rag/rag-service';
+import type { IngestionJobStatus, IngestionSource, IngestionStageProgress } from '@/types/ingest';
+
+export const INGESTION_SOURCES: IngestionSource[] = ['website', 'documents', 'files'];
+
+export interface IngestionPipelineOptions {
+  /** Project root that documents/ and public/files are resolved against */
+  rootDir?: string;
+  /**
+   * Load the documents source from this directory instead of <rootDir>/documents.
+   * Its chunks are tracked under their own scope, so they never replace ./documents.
+   */
+  documentsDir?: string;
+  /**
+   * Only load files whose path, relative to their source directory, matches
+   * this glob ("*.md", "case-studies/*.pdf"). Stored chunks of other files are
+   * left alone; the website source, having no files, loads nothing.
+   */
+  only?: string;
+  /** Called whenever a stage changes status or finishes an embedding batch */
+  onStageUpdate?: (stage: IngestionStageProgress, stages: IngestionStageProgress[]) => void;
+}
+
+export function resolveIngestionSources(selection: IngestionSource | 'all' = 'all'): IngestionSource[] {
+  return selection === 'all' ? [...INGESTION_SOURCES] : [selection];
+}
+
+export function createStageProgress(source: IngestionSource): IngestionStageProgress {
+  return {
+    source,
+    status: 'pending',
+    documents: 0,
+    toEmbed: 0,
+    upserted: 0,
+    skipped: 0,
+    deleted: 0,
+    failed: 0,
+    skippedFiles: [],
+    failedFiles: [],
+    errors: [],
+  };
+}
+
+export interface IngestionTotals {
+  documents: number;
+  upserted: number;
+  skipped: number;
+  deleted: number;
+  failed: number;
+  failedFiles: number;
+}
+
+export function sumStages(stages: IngestionStageProgress[]): IngestionTotals {
+  return stages.reduce<IngestionTotals>(
+    (totals, stage) => ({
+      documents: totals.documents + stage.documents,
+      upserted: totals.upserted + stage.upserted,
+      skipped: totals.skipped + stage.skipped,
+      deleted: totals.deleted + stage.deleted,
+      failed: totals.failed + stage.failed,
+      failedFiles: totals.failedFiles + stage.failedFiles.length,
+    }),
+    { documents: 0, upserted: 0, skipped: 0, deleted: 0, failed: 0, failedFiles: 0 }
+  );
+}
+
+/**
+ * 'failed' when no source could be ingested, 'partial' when some source,
+ * file or chunk failed, otherwise 'completed'
+ */
+export function ingestionOutcome(stages: IngestionStageProgress[]): Extract<IngestionJobStatus, 'completed' | 'partial' | 'failed'> {
+  const failedStages = stages.filter((stage) => stage.status === 'failed').length;
+  if (stages.length > 0 && failedStages === stages.length) return 'failed';
+
+  const totals = sumStages(stages);
+  return failedStages > 0 || totals.failed > 0 || totals.failedFiles > 0 ? 'partial' : 'completed';
+}
+
+function documentsDirOf(options: IngestionPipelineOptions): string {
+  const rootDir = options.rootDir ?? process.cwd();
+  return path.resolve(rootDir, options.documentsDir ?? 'documents');
+}
+
+/**
+ * Manifest scope of a source; a custom documents directory gets its own
+ */
+export function ingestionScope(source: IngestionSource, options: IngestionPipelineOptions = {}): string {
+  if (source !== 'documents') return source;
+
+  const rootDir = options.rootDir ?? process.cwd();
+  const relativeDir = path.relative(rootDir, documentsDirOf(options));
+  return relativeDir === 'documents' ? source : `documents:${relativeDir || '.'}`;
+}
+
+/**
+ * Load one source without embedding it. Also used by the dry run of
+ * `npm run ingest-docs`.
+ */
+export async function loadIngestionSource(
+  processor: DocumentProcessor,
+  source: IngestionSource,
+  options: IngestionPipelineOptions = {}
+): Promise<DirectoryReport> {
+  const rootDir = options.rootDir ?? process.cwd();
+  const { only } = options;
+  const filter = only ? (relativePath: string) => minimatch(relativePath, only, { matchBase: true }) : undefined;
+
+  switch (source) {
+    case 'website':
+      return only
+        ? { documents: [], skippedFiles: [], failedFiles: [], excludedFiles: ['website'] }
+        : {
+          documents: processor.processStructuredData(contentData, 'website'),
+          skippedFiles: [],
+          failedFiles: [],
+          excludedFiles: [],
+        };
+    case 'documents':
+      return processor.processDirectoryWithReport(documentsDirOf(options), filter);
+    case 'files':
+      return processor.processDirectoryWithReport(path.join(rootDir, 'public', 'files'), filter);
+  }
+}
+
+/**
+ * Load and ingest each source in turn, each under its own manifest scope so
+ * stale-chunk cleanup never touches another source. Shared by the ingestion
+ * job queue behind /api/ingest and by `npm run ingest-docs`.
+ *
+ * A failing source is recorded on its stage and the next source still runs.
+ */
+export async function runIngestionPipeline(
+  sources: IngestionSource[],
+  options: IngestionPipelineOptions = {}
+): Promise<IngestionStageProgress[]> {
+  const processor = new DocumentProcessor();
+  const ragService = RAGService.getInstance();
+  const stages = sources.map(createStageProgress);
+
+  const update = (stage: IngestionStageProgress, changes: Partial<IngestionStageProgress>) => {
+    Object.assign(stage, changes);
+    options.onStageUpdate?.(stage, stages);
+  };
+
+  for (const stage of stages) {
+    update(stage, { status: 'loading', startedAt: new Date().toISOString() });
+
+    try {
+      const report = await loadIngestionSource(processor, stage.source, options);
+      update(stage, {
+        status: 'embedding',
+        documents: report.documents.length,
+        skippedFiles: report.skippedFiles,
+        failedFiles: report.failedFiles,
+      });
+
+      const result = await ragService.ingestDocuments(report.documents, {
+        scope: ingestionScope(stage.source, options),
+        // Chunks stored from an earlier, successful load of a broken or filtered-out file stay put
+        preserveSources: [...report.failedFiles.map(({ file }) => file), ...report.excludedFiles],
+        onProgress: ({ total, completed, failed }) => {
+          update(stage, { toEmbed: total, upserted: completed, failed });
+        },
+      });
+
+      update(stage, {
+        status: 'completed',
+        toEmbed: result.total - result.skipped,
+        upserted: result.upserted,
+        skipped: result.skipped,
+        deleted: result.deleted,
+        failed: result.failed,
+        errors: result.errors,
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      update(stage, {
+        status: 'failed',
+        errors: [...stage.errors, error instanceof Error ? error.message : String(error)],
+        finishedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  return stages;
+}
@@ -0,0 +1,112 @@
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+// Fields used to name an object in a list, in order of preference
+const TITLE_FIELDS = ['title', 'name', 'company', 'companyName', 'role', 'position', 'school', 'degree', 'id'];
+
+// Deeper than this, nested objects are flattened into "Label: value" lines instead of headings
+const MAX_HEADING_DEPTH = 3;
+
+/**
+ * "startDate" / "start_date" -> "Start Date"
+ */
+function humanize(key: string): string {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function isPrimitive(value: JsonValue): value is string | number | boolean | null {
+  return value === null || typeof value !== 'object';
+}
+
+function isEmpty(value: JsonValue): boolean {
+  if (value === null || value === '') return true;
+  if (Array.isArray(value)) return value.every(isEmpty);
+  if (typeof value === 'object') return Object.values(value).every(isEmpty);
+  return false;
+}
+
+function itemTitle(item: { [key: string]: JsonValue }, fallback: string): string {
+  for (const field of TITLE_FIELDS) {
+    const value = item[field];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return fallback;
+}
+
+function renderLines(value: JsonValue, indent: string): string[] {
+  if (isPrimitive(value)) return [`${indent}${String(value)}`];
+
+  if (Array.isArray(value)) {
+    return value
+      .filter((item) => !isEmpty(item))
+      .flatMap((item) =>
+        isPrimitive(item) ? [`${indent}- ${String(item)}`] : renderLines(item, `${indent}  `).map((line, i) =>
+          i === 0 ? `${indent}- ${line.trimStart()}` : line
+        )
+      );
+  }
+
+  return Object.entries(value)
+    .filter(([, child]) => !isEmpty(child))
+    .flatMap(([key, child]) => {
+      if (isPrimitive(child)) return [`${indent}${humanize(key)}: ${String(child)}`];
+      if (Array.isArray(child) && child.every(isPrimitive)) {
+        return [`${indent}${humanize(key)}: ${child.filter((item) => !isEmpty(item)).join(', ')}`];
+      }
+      return [`${indent}${humanize(key)}:`, ...renderLines(child, `${indent}  `)];
+    });
+}
+
+function renderSection(value: JsonValue, heading: string, depth: number): string[] {
+  const blocks: string[] = [];
+  if (heading) blocks.push(`${'#'.repeat(depth)} ${heading}`);
+
+  const nested = depth < MAX_HEADING_DEPTH && !isPrimitive(value);
+
+  // A list of records: one section per record, named after its title field
+  if (nested && Array.isArray(value) && !value.every(isPrimitive)) {
+    value.forEach((item, index) => {
+      if (isEmpty(item)) return;
+      const title = !isPrimitive(item) && !Array.isArray(item)
+        ? itemTitle(item, `${heading || 'Item'} ${index + 1}`)
+        : `${heading || 'Item'} ${index + 1}`;
+      blocks.push(...renderSection(item, title, depth + 1));
+    });
+    return blocks;
+  }
+
+  // An object: simple fields stay together, nested records get sub-sections
+  if (nested && !Array.isArray(value)) {
+    const simple: { [key: string]: JsonValue } = {};
+    const sections: Array<[string, JsonValue]> = [];
+
+    Object.entries(value).forEach(([key, child]) => {
+      if (isEmpty(child)) return;
+      if (isPrimitive(child) || (Array.isArray(child) && child.every(isPrimitive))) {
+        simple[key] = child;
+      } else {
+        sections.push([key, child]);
+      }
+    });
+
+    if (Object.keys(simple).length > 0) blocks.push(renderLines(simple, '').join('\n'));
+    sections.forEach(([key, child]) => blocks.push(...renderSection(child, humanize(key), depth + 1)));
+    return blocks;
+  }
+
+  const lines = renderLines(value, '');
+  if (lines.length > 0) blocks.push(lines.join('\n'));
+  return blocks;
+}
+
+/**
+ * Render parsed JSON (e.g. a LinkedIn data export) as markdown-like text:
+ * nested objects and lists of records become headed sections, plain fields
+ * become "Label: value" lines
+ */
+export function jsonToStructuredText(value: unknown): string {
+  return renderSection(value as JsonValue, '', 0).join('\n\n');
+}
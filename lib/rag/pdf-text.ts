@@ -0,0 +1,85 @@
+import { PDFParse } from 'pdf-parse';
+
+export interface PdfPage {
+  /** 1-based page number */
+  number: number;
+  text: string;
+}
+
+// Headers and footers are looked for among the first and last lines of each page
+const EDGE_LINES = 2;
+
+// "7", "Page 7", "7 of 12", "Page 7 / 12", "- 7 -"
+const PAGE_NUMBER = /^[-–\s]*(page\s+)?\d{1,3}(\s*(of|\/)\s*\d{1,3})?[-–\s]*$/i;
+
+/**
+ * Lines differing only in digits ("Page 2 of 5" / "Page 3 of 5") count as the same line
+ */
+function lineKey(line: string): string {
+  return line.trim().toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+}
+
+function edgeLines(text: string): string[] {
+  const lines = text.split('\n').filter((line) => line.trim());
+  return lines.length <= EDGE_LINES * 2
+    ? lines
+    : [...lines.slice(0, EDGE_LINES), ...lines.slice(-EDGE_LINES)];
+}
+
+/**
+ * Drop running headers and footers: bare page numbers everywhere, and
+ * lines repeated at the top or bottom of at least half the pages. A
+ * repeated line is kept where it first appears, so a name in a header
+ * still reaches the index once.
+ */
+export function removeRepeatedLines(pages: PdfPage[]): PdfPage[] {
+  const pagesByKey = new Map<string, Set<number>>();
+  pages.forEach((page) => {
+    edgeLines(page.text).forEach((line) => {
+      const key = lineKey(line);
+      if (!pagesByKey.has(key)) pagesByKey.set(key, new Set());
+      pagesByKey.get(key)!.add(page.number);
+    });
+  });
+
+  const minPages = Math.max(2, Math.ceil(pages.length / 2));
+  const repeated = new Set(
+    Array.from(pagesByKey.entries())
+      .filter(([, found]) => found.size >= minPages)
+      .map(([key]) => key)
+  );
+  const seen = new Set<string>();
+
+  return pages.map((page) => {
+    const edges = new Set(edgeLines(page.text));
+    const lines = page.text.split('\n').filter((line) => {
+      if (!edges.has(line)) return true;
+      if (PAGE_NUMBER.test(line)) return false;
+
+      const key = lineKey(line);
+      if (!repeated.has(key)) return true;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    return { number: page.number, text: lines.join('\n').trim() };
+  });
+}
+
+/**
+ * Extract the text of each page of a PDF, without running headers and footers
+ */
+export async function extractPdfPages(data: Buffer): Promise<PdfPage[]> {
+  const parser = new PDFParse({ data });
+
+  try {
+    const result = await parser.getText();
+    return removeRepeatedLines(
+      // Form feeds separate pages once the text is joined for chunking
+      result.pages.map((page) => ({ number: page.num, text: page.text.replace(/\f/g, '\n') }))
+    );
+  } finally {
+    await parser.destroy();
+  }
+}
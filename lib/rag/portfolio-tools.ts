@@ -0,0 +1,241 @@
+import { findSkill, skillMatcher } from '@/lib/rag/skill-catalog';
+import { contentData } from '@/lib/data';
+import { ABOUT_SOURCE, experienceSource, projectSource } from '@/lib/rag/citations';
+import type { ToolDefinition } from '@/lib/rag/providers';
+import type { ChatSource } from '@/types/chat';
+import type { ContentData } from '@/types/content';
+
+export interface ToolResult {
+  /** JSON-serializable data handed back to the model */
+  data: unknown;
+  /** Portfolio items the data came from, cited like retrieved chunks */
+  sources: ChatSource[];
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Lowercase letters and digits only, so "nextjs" equals "Next.js"
+ */
+function key(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9+#]/g, '');
+}
+
+/**
+ * Whole-word match of a query, so "Java" doesn't find "JavaScript" and "AI"
+ * doesn't find "OpenAI". Known skills also match their other spellings:
+ * "Postgres" finds "PostgreSQL".
+ */
+function matcher(query: string): (value: string) => boolean {
+  const aliases = findSkill(query)?.patterns ?? [];
+  const pattern = skillMatcher([query.trim().toLowerCase(), ...aliases]);
+  return (value) => pattern.test(value) || key(value) === key(query);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+/**
+ * Months since year 0 for "Mar 2021"; "Present" is the current month
+ */
+function monthIndex(text: string, now: Date): number | null {
+  if (/present|current|now/i.test(text)) return now.getFullYear() * 12 + now.getMonth();
+
+  const match = text.trim().match(/^([a-z]{3})[a-z]*\.?\s+(\d{4})$/i);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[1].toLowerCase());
+  return month === -1 ? null : Number(match[2]) * 12 + month;
+}
+
+/**
+ * Length of a "Mar 2021 – Aug 2022" period in months, counting both ends
+ */
+export function periodMonths(period: string, now: Date = new Date()): number | null {
+  const [start, end] = period.split(/\s+[-–—]\s+/);
+  if (!start || !end) return null;
+
+  const from = monthIndex(start, now);
+  const to = monthIndex(end, now);
+  return from === null || to === null || to < from ? null : to - from + 1;
+}
+
+export function formatMonths(months: number): string {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [
+    years > 0 ? `${years} year${years === 1 ? '' : 's'}` : '',
+    rest > 0 ? `${rest} month${rest === 1 ? '' : 's'}` : '',
+  ].filter(Boolean);
+  return parts.join(' ') || '0 months';
+}
+
+/**
+ * Function tools over the portfolio data, for questions that need exact
+ * structured answers ("every project using PostgreSQL", "how long at CGI")
+ * rather than whichever chunks happen to rank in the top k.
+ */
+export class PortfolioTools {
+  readonly definitions: ToolDefinition[];
+  private data: ContentData;
+  private now: () => Date;
+
+  constructor(data: ContentData = contentData, now: () => Date = () => new Date()) {
+    this.data = data;
+    this.now = now;
+    this.definitions = [
+      {
+        name: 'find_projects',
+        description: 'List portfolio projects, optionally only those using a technology and/or carrying a tag. Use it for questions like "which projects use PostgreSQL?".',
+        parameters: {
+          type: 'object',
+          properties: {
+            tech: { type: 'string', description: 'Technology to filter by, e.g. "PostgreSQL" or "LangGraph"' },
+            tag: { type: 'string', description: 'Tag to filter by, e.g. "AI Agents" or "NLP"' },
+          },
+          additionalProperties: false,
+        },
+      },
+      {
+        name: 'get_experience',
+        description: 'Get work experience by company, with the period, its length, responsibilities, stack and impact. Omit the company to list every role.',
+        parameters: {
+          type: 'object',
+          properties: {
+            company: { type: 'string', description: 'Company name or part of it, e.g. "CGI"' },
+          },
+          additionalProperties: false,
+        },
+      },
+      {
+        name: 'list_skills',
+        description: 'List skills, optionally only one category.',
+        parameters: {
+          type: 'object',
+          properties: {
+            category: { type: 'string', enum: Object.keys(data.about.skills) },
+          },
+          additionalProperties: false,
+        },
+      },
+      {
+        name: 'get_contact_info',
+        description: 'Get email, phone, GitHub, LinkedIn and resume link.',
+        parameters: { type: 'object', properties: {}, additionalProperties: false },
+      },
+    ];
+  }
+
+  /**
+   * Run a tool the model called. Bad calls return an error for the model to
+   * read instead of throwing, so the answer can still go ahead.
+   */
+  call(name: string, rawArguments: string): ToolResult {
+    let args: Record<string, unknown>;
+    try {
+      const parsed = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+      args = parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return { data: { error: `Arguments are not valid JSON: ${rawArguments}` }, sources: [] };
+    }
+
+    switch (name) {
+      case 'find_projects':
+        return this.findProjects(asString(args.tech), asString(args.tag));
+      case 'get_experience':
+        return this.getExperience(asString(args.company));
+      case 'list_skills':
+        return this.listSkills(asString(args.category));
+      case 'get_contact_info':
+        return this.getContactInfo();
+      default:
+        return { data: { error: `Unknown tool "${name}"` }, sources: [] };
+    }
+  }
+
+  private findProjects(tech?: string, tag?: string): ToolResult {
+    const matchesTech = tech ? matcher(tech) : null;
+    const matchesTag = tag ? matcher(tag) : null;
+    const apps = this.data.apps.filter(
+      (app) =>
+        (!matchesTech || app.tech.some(matchesTech)) &&
+        (!matchesTag || (app.tags ?? []).some(matchesTag))
+    );
+
+    return {
+      data: {
+        filters: { ...(tech ? { tech } : {}), ...(tag ? { tag } : {}) },
+        count: apps.length,
+        projects: apps.map((app) => ({
+          title: app.title,
+          description: app.shortDescription,
+          tech: app.tech,
+          tags: app.tags ?? [],
+          role: app.role,
+          date: app.dateRange,
+          ...(app.status ? { status: app.status } : {}),
+          ...(app.repoUrl ? { repoUrl: app.repoUrl } : {}),
+          ...(app.liveUrl ? { liveUrl: app.liveUrl } : {}),
+        })),
+      },
+      sources: apps.map(projectSource),
+    };
+  }
+
+  private getExperience(company?: string): ToolResult {
+    const matchesCompany = company ? matcher(company) : null;
+    const roles = matchesCompany
+      ? this.data.experience.filter((exp) => matchesCompany(exp.company))
+      : this.data.experience;
+
+    if (roles.length === 0) {
+      return {
+        data: {
+          error: `No experience at "${company}"`,
+          companies: this.data.experience.map((exp) => exp.company),
+        },
+        sources: [],
+      };
+    }
+
+    return {
+      data: roles.map((exp) => {
+        const months = periodMonths(exp.period, this.now());
+        return {
+          company: exp.company,
+          role: exp.role,
+          period: exp.period,
+          ...(months !== null ? { months, duration: formatMonths(months) } : {}),
+          responsibilities: exp.responsibilities ?? [],
+          stack: exp.stack ?? [],
+          impact: exp.impact ?? {},
+        };
+      }),
+      sources: roles.map(experienceSource),
+    };
+  }
+
+  private listSkills(category?: string): ToolResult {
+    const { skills } = this.data.about;
+    const categories = category
+      ? Object.keys(skills).filter(matcher(category))
+      : Object.keys(skills);
+
+    if (categories.length === 0) {
+      return { data: { error: `No skill category "${category}"`, categories: Object.keys(skills) }, sources: [] };
+    }
+
+    return {
+      data: Object.fromEntries(categories.map((name) => [name, skills[name]])),
+      sources: [ABOUT_SOURCE],
+    };
+  }
+
+  private getContactInfo(): ToolResult {
+    const { contact, resumeUrl } = this.data.about;
+    return {
+      data: { ...contact, ...(resumeUrl ? { resumeUrl } : {}) },
+      sources: [ABOUT_SOURCE],
+    };
+  }
+}
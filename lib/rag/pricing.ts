@@ -0,0 +1,59 @@
+import type { ChatUsage } from '@/lib/rag/providers';
+
+// USD per million input tokens (https://openai.com/api/pricing)
+export const EMBEDDING_PRICES: Record<string, number> = {
+  'text-embedding-3-small': 0.02,
+  'text-embedding-3-large': 0.13,
+  'text-embedding-ada-002': 0.1,
+  'stub-embedding': 0,
+};
+
+export interface ChatModelPrice {
+  /** USD per million prompt tokens */
+  input: number;
+  /** USD per million completion tokens */
+  output: number;
+}
+
+export const CHAT_PRICES: Record<string, ChatModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'stub-chat': { input: 0, output: 0 },
+};
+
+/**
+ * Entry of a price list for a model, also for dated or sized variants like
+ * gpt-4o-mini-2024-07-18 or stub-embedding-256
+ */
+function priceOf<T>(prices: Record<string, T>, model: string): T | null {
+  const name = Object.keys(prices)
+    .filter((key) => model === key || model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return name ? prices[name] : null;
+}
+
+export function chatModelPrice(model: string): ChatModelPrice | null {
+  return priceOf(CHAT_PRICES, model);
+}
+
+/**
+ * Estimated USD cost of a chat completion, or null when the model has no listed price
+ */
+export function chatCost(model: string, usage: ChatUsage): number | null {
+  const price = chatModelPrice(model);
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Estimated USD cost of embedding `tokens` input tokens, or null when the model has no listed price
+ */
+export function embeddingCost(model: string, tokens: number): number | null {
+  const price = priceOf(EMBEDDING_PRICES, model);
+  return price === null ? null : (tokens * price) / 1_000_000;
+}
@@ -0,0 +1,47 @@
+import type { ChatModelConfig, EmbeddingModelConfig } from '@/lib/rag/config';
+import { OpenAIChatProvider, OpenAIEmbeddingProvider } from './openai-provider';
+import { StubChatProvider, StubEmbeddingProvider } from './stub-provider';
+import type { ChatProvider, EmbeddingProvider } from './types';
+
+export type {
+  ChatCompletion,
+  ChatMessage,
+  ChatOptions,
+  ChatProvider,
+  ChatStreamDelta,
+  ChatUsage,
+  EmbeddingProvider,
+  ToolCall,
+  ToolChatOptions,
+  ToolDefinition,
+} from './types';
+export { OpenAIChatProvider, OpenAIEmbeddingProvider } from './openai-provider';
+export { StubChatProvider, StubEmbeddingProvider } from './stub-provider';
+
+export function createChatProvider(config: ChatModelConfig): ChatProvider {
+  switch (config.provider) {
+    case 'stub':
+      return new StubChatProvider();
+    case 'openai-compatible':
+      if (!config.baseURL) {
+        throw new Error('LLM_PROVIDER=openai-compatible requires LLM_BASE_URL');
+      }
+      return new OpenAIChatProvider({ name: 'openai-compatible', ...config });
+    case 'openai':
+      return new OpenAIChatProvider({ name: 'openai', ...config, baseURL: undefined });
+  }
+}
+
+export function createEmbeddingProvider(config: EmbeddingModelConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'stub':
+      return new StubEmbeddingProvider(config.dimensions);
+    case 'openai-compatible':
+      if (!config.baseURL) {
+        throw new Error('EMBEDDING_PROVIDER=openai-compatible requires EMBEDDING_BASE_URL or LLM_BASE_URL');
+      }
+      return new OpenAIEmbeddingProvider({ name: 'openai-compatible', ...config });
+    case 'openai':
+      return new OpenAIEmbeddingProvider({ name: 'openai', ...config, baseURL: undefined });
+  }
+}
@@ -0,0 +1,186 @@
+import { OpenAI } from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type {
+  ChatCompletion,
+  ChatMessage,
+  ChatOptions,
+  ChatProvider,
+  ChatStreamDelta,
+  EmbeddingProvider,
+  ToolCall,
+  ToolChatOptions,
+  ToolDefinition,
+} from './types';
+
+export interface OpenAIProviderOptions {
+  name: string;
+  model: string;
+  apiKey?: string;
+  /** Point at any OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama */
+  baseURL?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+function toOpenAIMessage(message: ChatMessage): ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'tool':
+      return { role: 'tool', content: message.content, tool_call_id: message.toolCallId };
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls?.length
+          ? {
+              tool_calls: message.toolCalls.map((call) => ({
+                id: call.id,
+                type: 'function' as const,
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }
+          : {}),
+      };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+/**
+ * Chat provider for the OpenAI API and OpenAI-compatible servers (Ollama, llama.cpp, vLLM)
+ */
+export class OpenAIChatProvider implements ChatProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly followsInstructions = true;
+  private client: OpenAI;
+  private hasCredentials: boolean;
+  private temperature: number;
+  private maxTokens: number;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.temperature = options.temperature ?? 0.7;
+    this.maxTokens = options.maxTokens ?? 500;
+    // Local servers usually ignore the key, but the client insists on one
+    this.hasCredentials = Boolean(options.apiKey || options.baseURL);
+    this.client = new OpenAI({
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+    });
+  }
+
+  isConfigured(): boolean {
+    return this.hasCredentials;
+  }
+
+  async complete(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatCompletion> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: messages.map(toOpenAIMessage),
+      temperature: options.temperature ?? this.temperature,
+      max_tokens: options.maxTokens ?? this.maxTokens,
+    });
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model,
+      usage: completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  async *streamWithTools(
+    messages: ChatMessage[],
+    tools: ToolDefinition[],
+    options: ToolChatOptions = {}
+  ): AsyncIterable<ChatStreamDelta> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: messages.map(toOpenAIMessage),
+      temperature: options.temperature ?? this.temperature,
+      max_tokens: options.maxTokens ?? this.maxTokens,
+      ...(tools.length > 0
+        ? {
+            tools: tools.map((tool) => ({ type: 'function' as const, function: tool })),
+            tool_choice: options.toolChoice ?? 'auto',
+          }
+        : {}),
+      stream: true,
+      // Compatible servers don't all accept stream_options, so only ask OpenAI itself
+      ...(this.name === 'openai' ? { stream_options: { include_usage: true } } : {}),
+    });
+
+    // Tool calls arrive in fragments keyed by their position in the reply
+    const calls = new Map<number, ToolCall>();
+    let usage: ChatCompletion['usage'];
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        yield { type: 'text', content: delta.content };
+      }
+
+      delta?.tool_calls?.forEach((fragment) => {
+        const call = calls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+        calls.set(fragment.index, {
+          id: fragment.id ?? call.id,
+          name: call.name + (fragment.function?.name ?? ''),
+          arguments: call.arguments + (fragment.function?.arguments ?? ''),
+        });
+      });
+    }
+
+    if (calls.size > 0) {
+      yield { type: 'tool_calls', calls: Array.from(calls.values()) };
+    }
+    if (usage) {
+      yield { type: 'usage', usage };
+    }
+  }
+}
+
+/**
+ * Embedding provider for the OpenAI API and OpenAI-compatible servers
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+  private hasCredentials: boolean;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.hasCredentials = Boolean(options.apiKey || options.baseURL);
+    this.client = new OpenAI({
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+    });
+  }
+
+  isConfigured(): boolean {
+    return this.hasCredentials;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    // The API may return results out of order, so sort by input index
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
@@ -0,0 +1,115 @@
+import { hashString, tokenize } from '@/lib/rag/text';
+import type { ChatCompletion, ChatMessage, ChatProvider, ChatStreamDelta, EmbeddingProvider } from './types';
+
+/**
+ * Deterministic chat provider for offline runs and tests.
+ * Answers are extractive: the context lines that share the most words with
+ * the question, wrapped in a fixed template. No network calls are made.
+ */
+export class StubChatProvider implements ChatProvider {
+  readonly name = 'stub';
+  readonly model = 'stub-chat';
+  readonly followsInstructions = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(messages: ChatMessage[]): Promise<ChatCompletion> {
+    const content = buildStubAnswer(messages);
+    return {
+      content,
+      model: this.model,
+      usage: {
+        promptTokens: messages.reduce((sum, msg) => sum + tokenize(msg.content).length, 0),
+        completionTokens: tokenize(content).length,
+      },
+    };
+  }
+
+  /** The stub never calls tools, it answers from the context */
+  async *streamWithTools(messages: ChatMessage[]): AsyncIterable<ChatStreamDelta> {
+    const { content, usage } = await this.complete(messages);
+    // Emit word by word so streaming clients behave like they do against a real model
+    for (const piece of content.match(/\S+\s*/g) || []) {
+      yield { type: 'text', content: piece };
+    }
+    if (usage) {
+      yield { type: 'usage', usage };
+    }
+  }
+}
+
+/**
+ * Deterministic embeddings using the hashing trick: every token is hashed
+ * into one of `dimensions` buckets with a hash-derived sign. Texts sharing
+ * words end up close in cosine space, which is enough for offline retrieval.
+ */
+export class StubEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'stub';
+  readonly model: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = 256) {
+    this.dimensions = dimensions;
+    this.model = `stub-embedding-${dimensions}`;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const token of tokenize(text)) {
+      const hash = hashString(token);
+      const sign = hash & 1 ? 1 : -1;
+      vector[(hash >>> 1) % this.dimensions] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
+
+function extractQuestion(messages: ChatMessage[]): string {
+  const lastUser = [...messages].reverse().find((msg) => msg.role === 'user');
+  if (!lastUser) return '';
+
+  const marked = lastUser.content.match(/USER QUESTION:\s*(.+)/);
+  return (marked ? marked[1] : lastUser.content).trim();
+}
+
+function buildStubAnswer(messages: ChatMessage[]): string {
+  const question = extractQuestion(messages);
+  const questionTokens = new Set(tokenize(question));
+
+  const lines = messages
+    .filter((msg) => msg.role !== 'system')
+    .flatMap((msg) => msg.content.split('\n'))
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.includes(question));
+
+  const ranked = Array.from(new Set(lines))
+    .map((line, position) => ({
+      line,
+      position,
+      score: tokenize(line).filter((token) => questionTokens.has(token)).length,
+    }))
+    .filter((candidate) => candidate.score > 0)
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .slice(0, 3);
+
+  if (ranked.length === 0) {
+    return "I don't have information about that in Harishraj's portfolio.";
+  }
+
+  return `Here is what Harishraj's portfolio says about "${question}":\n\n${ranked
+    .map((candidate) => `- ${candidate.line}`)
+    .join('\n')}`;
+}
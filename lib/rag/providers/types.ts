@@ -0,0 +1,77 @@
+/**
+ * A function the model may call instead of answering
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments, as written by the model */
+  arguments: string;
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; content: string; toolCallId: string };
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ToolChatOptions extends ChatOptions {
+  /** 'none' makes the model answer without calling any of the tools */
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Streamed text, the tool calls the model asked for in place of an answer,
+ * or token usage, sent once at the end by providers that report it
+ */
+export type ChatStreamDelta =
+  | { type: 'text'; content: string }
+  | { type: 'tool_calls'; calls: ToolCall[] }
+  | { type: 'usage'; usage: ChatUsage };
+
+export interface ChatCompletion {
+  content: string;
+  model: string;
+  usage?: ChatUsage;
+}
+
+export interface ChatProvider {
+  readonly name: string;
+  readonly model: string;
+  /**
+   * False for providers that answer from a template (the stub) and can't be
+   * trusted with auxiliary tasks like query rewriting or reranking
+   */
+  readonly followsInstructions: boolean;
+  /** False when the provider is missing credentials and cannot be called */
+  isConfigured(): boolean;
+  complete(messages: ChatMessage[], options?: ChatOptions): Promise<ChatCompletion>;
+  /**
+   * Stream a reply in which the model may call `tools`. Text arrives as it
+   * is generated; the requested calls, if any, arrive once at the end.
+   */
+  streamWithTools(messages: ChatMessage[], tools: ToolDefinition[], options?: ToolChatOptions): AsyncIterable<ChatStreamDelta>;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  isConfigured(): boolean;
+  /** Embed several inputs at once, returning one vector per input in the same order */
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,55 @@
+import type { ChatMessage, ChatProvider } from '@/lib/rag/providers';
+import type { ChatTraceRecorder } from '@/lib/rag/tracing';
+import type { ChatHistoryMessage } from '@/types/chat';
+
+const REWRITE_INSTRUCTIONS = `You turn the latest message of a conversation about Harishraj Udaya Bhaskar's portfolio into a standalone search query.
+Resolve pronouns and references such as "he", "there" or "that project" using the earlier messages.
+Keep names of companies, projects and technologies exactly as written.
+Reply with the search query only, on a single line.`;
+
+/**
+ * Rewrites follow-up questions ("what stack did he use there?") into
+ * standalone queries so retrieval sees what the user is actually asking about
+ */
+export class QueryRewriter {
+  private chatProvider: ChatProvider;
+  private historyTurns: number;
+
+  constructor(chatProvider: ChatProvider, historyTurns: number) {
+    this.chatProvider = chatProvider;
+    this.historyTurns = historyTurns;
+  }
+
+  /** Tokens the rewrite used go to `trace` */
+  async rewrite(query: string, conversationHistory: ChatHistoryMessage[], trace?: ChatTraceRecorder): Promise<string> {
+    // A first question has nothing to resolve, and without a real model the raw query is the best we have
+    if (
+      conversationHistory.length === 0 ||
+      !this.chatProvider.isConfigured() ||
+      !this.chatProvider.followsInstructions
+    ) {
+      return query;
+    }
+
+    const transcript = conversationHistory
+      .slice(-this.historyTurns * 2)
+      .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n');
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: REWRITE_INSTRUCTIONS },
+      { role: 'user', content: `Conversation:\n${transcript}\n\nLatest message: ${query}` },
+    ];
+
+    try {
+      const completion = await this.chatProvider.complete(messages, { temperature: 0, maxTokens: 60 });
+      trace?.completed(messages, completion);
+
+      const rewritten = completion.content.split('\n')[0].trim().replace(/^["']|["']$/g, '');
+      return rewritten.length > 0 && rewritten.length <= 300 ? rewritten : query;
+    } catch (error) {
+      console.error('Query rewriting failed, searching with the raw query:', error);
+      return query;
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import type { ChatMessage, ChatProvider } from '@/lib/rag/providers';
+import { tokenize } from '@/lib/rag/text';
+import type { ChatTraceRecorder } from '@/lib/rag/tracing';
+import type { RetrievedChunk } from '@/lib/rag/types';
+
+export type RerankerKind = 'none' | 'lexical' | 'llm';
+
+/**
+ * Reorders fused retrieval candidates before they go into the prompt
+ */
+export interface Reranker {
+  readonly name: string;
+  /** Model calls report their token usage to `trace` */
+  rerank(query: string, chunks: RetrievedChunk[], topK: number, trace?: ChatTraceRecorder): Promise<RetrievedChunk[]>;
+}
+
+/**
+ * Keeps the fused order as is
+ */
+export class PassthroughReranker implements Reranker {
+  readonly name = 'none';
+
+  async rerank(_query: string, chunks: RetrievedChunk[], topK: number): Promise<RetrievedChunk[]> {
+    return chunks.slice(0, topK);
+  }
+}
+
+/**
+ * Cheap deterministic reranker: blends the fused score with how many of the
+ * query terms a chunk covers and whether it contains adjacent query terms verbatim
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+
+  async rerank(query: string, chunks: RetrievedChunk[], topK: number): Promise<RetrievedChunk[]> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || chunks.length === 0) return chunks.slice(0, topK);
+
+    const queryTokens = tokenize(query);
+    const phrases = queryTokens.slice(1).map((token, i) => `${queryTokens[i]} ${token}`);
+    const maxScore = Math.max(...chunks.map((chunk) => chunk.score)) || 1;
+
+    return chunks
+      .map((chunk) => {
+        const chunkTokens = tokenize(chunk.text);
+        const tokenSet = new Set(chunkTokens);
+        const joined = ` ${chunkTokens.join(' ')} `;
+
+        const coverage = terms.filter((term) => tokenSet.has(term)).length / terms.length;
+        const phraseHits = phrases.filter((phrase) => joined.includes(` ${phrase} `)).length;
+        const phraseBonus = phrases.length > 0 ? phraseHits / phrases.length : 0;
+
+        return {
+          ...chunk,
+          score: 0.5 * (chunk.score / maxScore) + 0.4 * coverage + 0.1 * phraseBonus,
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
+
+/**
+ * Asks the chat model to order the candidates by relevance.
+ * Falls back to the fused order when the model is unavailable or its reply can't be parsed.
+ */
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+  private chatProvider: ChatProvider;
+
+  constructor(chatProvider: ChatProvider) {
+    this.chatProvider = chatProvider;
+  }
+
+  async rerank(query: string, chunks: RetrievedChunk[], topK: number, trace?: ChatTraceRecorder): Promise<RetrievedChunk[]> {
+    if (chunks.length <= 1 || !this.chatProvider.isConfigured() || !this.chatProvider.followsInstructions) {
+      return chunks.slice(0, topK);
+    }
+
+    const passages = chunks
+      .map((chunk, i) => `[${i + 1}] ${chunk.text.slice(0, 600)}`)
+      .join('\n\n');
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: 'You rank passages by how well they answer a question. Reply with a JSON array of passage numbers, most relevant first, and nothing else.',
+      },
+      {
+        role: 'user',
+        content: `Question: ${query}\n\nPassages:\n${passages}`,
+      },
+    ];
+
+    try {
+      const completion = await this.chatProvider.complete(messages, { temperature: 0, maxTokens: 100 });
+      trace?.completed(messages, completion);
+
+      const order = JSON.parse(completion.content.match(/\[[\d,\s]*\]/)?.[0] ?? '[]') as number[];
+      const picked = order
+        .map((position) => chunks[position - 1])
+        .filter((chunk): chunk is RetrievedChunk => Boolean(chunk));
+
+      // Anything the model left out keeps its fused position after the ranked ones
+      const remaining = chunks.filter((chunk) => !picked.includes(chunk));
+      return Array.from(new Set([...picked, ...remaining])).slice(0, topK);
+    } catch (error) {
+      console.error('LLM reranking failed, keeping fused order:', error);
+      return chunks.slice(0, topK);
+    }
+  }
+}
+
+export function createReranker(kind: RerankerKind, chatProvider: ChatProvider): Reranker {
+  switch (kind) {
+    case 'lexical':
+      return new LexicalReranker();
+    case 'llm':
+      return new LLMReranker(chatProvider);
+    case 'none':
+      return new PassthroughReranker();
+  }
+}
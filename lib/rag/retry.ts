@@ -0,0 +1,87 @@
+export interface RetryOptions {
+  /** Attempts after the first one */
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Called before sleeping between attempts */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE']);
+
+/**
+ * Rate limits (429), server errors (5xx), timeouts and dropped connections are
+ * worth retrying; anything else (bad request, auth) will fail the same way again
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { status, code, name } = error as { status?: number; code?: string; name?: string };
+
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  if (code && RETRYABLE_NETWORK_CODES.has(code)) return true;
+  return name === 'APIConnectionError' || name === 'APIConnectionTimeoutError';
+}
+
+/**
+ * Honour a Retry-After header when the API sent one (seconds or HTTP date)
+ */
+function retryAfterMs(error: unknown): number | null {
+  const headers = (error as { headers?: Record<string, string> | Headers })?.headers;
+  if (!headers) return null;
+
+  const value = headers instanceof Headers ? headers.get('retry-after') : headers['retry-after'];
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `fn`, retrying retryable errors with exponential backoff and full jitter
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, baseDelayMs = 500, maxDelayMs = 30_000, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delayMs = Math.min(maxDelayMs, retryAfterMs(error) ?? Math.random() * backoff);
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Map over `items` with at most `limit` calls of `fn` in flight at once
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
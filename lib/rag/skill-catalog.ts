@@ -0,0 +1,137 @@
+export interface SkillDefinition {
+  /** Canonical name shown in fit reports */
+  name: string;
+  /**
+   * Lowercase spellings looked for as whole words. Words too common to be a
+   * reliable signal on their own ("go", "node", "agents") are left out.
+   */
+  patterns: string[];
+}
+
+/**
+ * Skills a job description is scanned for. Portfolio tech and stack entries
+ * that none of these cover are added when the catalog is built, so every
+ * skill the portfolio can show is recognized.
+ */
+export const SKILL_CATALOG: SkillDefinition[] = [
+  // Languages
+  { name: 'Python', patterns: ['python'] },
+  { name: 'Java', patterns: ['java'] },
+  { name: 'JavaScript', patterns: ['javascript', 'ecmascript'] },
+  { name: 'TypeScript', patterns: ['typescript'] },
+  { name: 'Go', patterns: ['golang'] },
+  { name: 'Rust', patterns: ['rust'] },
+  { name: 'C++', patterns: ['c++', 'cpp'] },
+  { name: 'C#', patterns: ['c#', '.net', 'dotnet'] },
+  { name: 'Scala', patterns: ['scala'] },
+  { name: 'Kotlin', patterns: ['kotlin'] },
+  { name: 'SQL', patterns: ['sql'] },
+  { name: 'Bash', patterns: ['bash', 'shell scripting'] },
+
+  // Machine learning
+  { name: 'Machine Learning', patterns: ['machine learning', 'ml'] },
+  { name: 'Deep Learning', patterns: ['deep learning', 'neural networks'] },
+  { name: 'NLP', patterns: ['nlp', 'natural language processing'] },
+  { name: 'Computer Vision', patterns: ['computer vision'] },
+  { name: 'Reinforcement Learning', patterns: ['reinforcement learning'] },
+  { name: 'Recommender Systems', patterns: ['recommender systems', 'recommender system', 'recommendation systems', 'recommendation engine'] },
+  { name: 'Statistics', patterns: ['statistics', 'statistical modeling'] },
+  { name: 'A/B Testing', patterns: ['a/b testing', 'ab testing'] },
+  { name: 'PyTorch', patterns: ['pytorch'] },
+  { name: 'TensorFlow', patterns: ['tensorflow'] },
+  { name: 'Keras', patterns: ['keras'] },
+  { name: 'JAX', patterns: ['jax'] },
+  { name: 'Scikit-learn', patterns: ['scikit-learn', 'scikit learn', 'sklearn'] },
+  { name: 'XGBoost', patterns: ['xgboost'] },
+  { name: 'Hugging Face', patterns: ['hugging face', 'huggingface'] },
+  { name: 'spaCy', patterns: ['spacy'] },
+  { name: 'NLTK', patterns: ['nltk'] },
+  { name: 'OpenCV', patterns: ['opencv'] },
+  { name: 'Pandas', patterns: ['pandas'] },
+  { name: 'NumPy', patterns: ['numpy'] },
+  { name: 'Spark', patterns: ['spark', 'pyspark'] },
+
+  // LLMs and agents
+  { name: 'LLMs', patterns: ['llm', 'llms', 'large language model', 'large language models', 'generative ai', 'genai'] },
+  { name: 'OpenAI', patterns: ['openai', 'gpt', 'gpt-4', 'gpt-4o', 'chatgpt'] },
+  { name: 'Mistral', patterns: ['mistral', 'mistral-7b'] },
+  { name: 'Llama', patterns: ['llama', 'llama 2', 'llama 3'] },
+  { name: 'Fine-tuning', patterns: ['fine-tuning', 'fine tuning', 'finetuning', 'fine-tune', 'fine tune', 'lora', 'qlora', 'peft'] },
+  { name: 'RAG', patterns: ['rag', 'retrieval-augmented generation', 'retrieval augmented generation'] },
+  { name: 'Prompt Engineering', patterns: ['prompt engineering', 'prompt design'] },
+  { name: 'Embeddings', patterns: ['embeddings', 'embedding models'] },
+  { name: 'Vector Databases', patterns: ['vector database', 'vector databases', 'vector db', 'vector store', 'vector search'] },
+  { name: 'Pinecone', patterns: ['pinecone'] },
+  { name: 'FAISS', patterns: ['faiss'] },
+  { name: 'LangChain', patterns: ['langchain'] },
+  { name: 'LangGraph', patterns: ['langgraph'] },
+  { name: 'LlamaIndex', patterns: ['llamaindex', 'llama index'] },
+  { name: 'AI Agents', patterns: ['ai agents', 'agentic', 'multi-agent', 'multi agent', 'autonomous agents'] },
+
+  // Cloud and MLOps
+  { name: 'AWS', patterns: ['aws', 'amazon web services'] },
+  { name: 'Azure', patterns: ['azure'] },
+  { name: 'GCP', patterns: ['gcp', 'google cloud'] },
+  { name: 'SageMaker', patterns: ['sagemaker'] },
+  { name: 'Docker', patterns: ['docker'] },
+  { name: 'Kubernetes', patterns: ['kubernetes', 'k8s', 'eks', 'aks', 'gke'] },
+  { name: 'Terraform', patterns: ['terraform'] },
+  { name: 'CI/CD', patterns: ['ci/cd', 'ci cd', 'continuous integration', 'continuous delivery', 'github actions', 'jenkins'] },
+  { name: 'MLOps', patterns: ['mlops'] },
+  { name: 'Airflow', patterns: ['airflow'] },
+  { name: 'MLflow', patterns: ['mlflow'] },
+  { name: 'Kubeflow', patterns: ['kubeflow'] },
+  { name: 'Model Monitoring', patterns: ['model monitoring', 'ml monitoring'] },
+  { name: 'Linux', patterns: ['linux'] },
+  { name: 'Git', patterns: ['git'] },
+
+  // Web and APIs
+  { name: 'React', patterns: ['react', 'react.js', 'reactjs'] },
+  { name: 'Angular', patterns: ['angular'] },
+  { name: 'Vue', patterns: ['vue', 'vue.js'] },
+  { name: 'Next.js', patterns: ['next.js', 'nextjs'] },
+  { name: 'Node.js', patterns: ['node.js', 'nodejs'] },
+  { name: 'FastAPI', patterns: ['fastapi'] },
+  { name: 'Flask', patterns: ['flask'] },
+  { name: 'Django', patterns: ['django'] },
+  { name: 'Fastify', patterns: ['fastify'] },
+  { name: 'Tailwind CSS', patterns: ['tailwind', 'tailwindcss'] },
+  { name: 'GraphQL', patterns: ['graphql'] },
+  { name: 'REST APIs', patterns: ['rest api', 'rest apis', 'restful'] },
+
+  // Data stores and infrastructure
+  { name: 'PostgreSQL', patterns: ['postgresql', 'postgres'] },
+  { name: 'MySQL', patterns: ['mysql'] },
+  { name: 'MongoDB', patterns: ['mongodb', 'mongo'] },
+  { name: 'Redis', patterns: ['redis'] },
+  { name: 'Elasticsearch', patterns: ['elasticsearch', 'elk', 'elastic stack', 'opensearch'] },
+  { name: 'Kafka', patterns: ['kafka'] },
+  { name: 'RabbitMQ', patterns: ['rabbitmq'] },
+  { name: 'Celery', patterns: ['celery'] },
+  { name: 'Snowflake', patterns: ['snowflake'] },
+  { name: 'Data Engineering', patterns: ['data engineering', 'etl', 'data pipelines'] },
+  { name: 'Prometheus', patterns: ['prometheus'] },
+  { name: 'Grafana', patterns: ['grafana'] },
+  { name: 'Selenium', patterns: ['selenium'] },
+  { name: 'pytest', patterns: ['pytest'] },
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word match of any pattern, so "sql" doesn't match "postgresql" and "java" doesn't match "javascript"
+ */
+export function skillMatcher(patterns: string[]): RegExp {
+  const alternatives = patterns.map(escapeRegExp).join('|');
+  return new RegExp(`(^|[^a-z0-9+#])(${alternatives})(?![a-z0-9+#])`, 'i');
+}
+
+/**
+ * The catalog entry a name or one of its spellings refers to, e.g. "Postgres" -> PostgreSQL
+ */
+export function findSkill(name: string): SkillDefinition | undefined {
+  const lower = name.trim().toLowerCase();
+  return SKILL_CATALOG.find((skill) => skill.name.toLowerCase() === lower || skill.patterns.includes(lower));
+}
@@ -0,0 +1,28 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'for', 'from',
+  'has', 'have', 'he', 'his', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on',
+  'or', 'so', 'tell', 'that', 'the', 'their', 'there', 'this', 'to', 'was', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your',
+]);
+
+/**
+ * Lowercase word tokens with stop words removed.
+ * Keeps characters like "+", "#" and "." inside a token so "c++", "c#" and "node.js" survive.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) || [])
+    .map((token) => token.replace(/\.+$/, ''))
+    .filter((token) => token.length > 0 && !STOP_WORDS.has(token));
+}
+
+/**
+ * 32-bit FNV-1a hash, stable across runs and platforms
+ */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
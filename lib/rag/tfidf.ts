@@ -0,0 +1,83 @@
+import { tokenize } from '@/lib/rag/text';
+import type { LexicalDocument, LexicalMatch } from '@/lib/rag/bm25';
+
+/**
+ * In-memory TF-IDF index with cosine scoring. Built once over a small,
+ * static corpus, so vectors are precomputed and never updated.
+ */
+export class TfIdfIndex {
+  private vectors = new Map<string, Map<string, number>>();
+  private norms = new Map<string, number>();
+  private idf = new Map<string, number>();
+
+  constructor(documents: LexicalDocument[]) {
+    const termCounts = documents.map((document) => ({ id: document.id, counts: countTerms(tokenize(document.text)) }));
+
+    const documentFrequencies = new Map<string, number>();
+    termCounts.forEach(({ counts }) => {
+      counts.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1));
+    });
+
+    // Smoothed idf so terms present in every document still count a little
+    documentFrequencies.forEach((frequency, term) => {
+      this.idf.set(term, Math.log((1 + documents.length) / (1 + frequency)) + 1);
+    });
+
+    termCounts.forEach(({ id, counts }) => {
+      const vector = this.weigh(counts);
+      this.vectors.set(id, vector);
+      this.norms.set(id, norm(vector));
+    });
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  search(query: string, topK: number): LexicalMatch[] {
+    const queryVector = this.weigh(countTerms(tokenize(query)));
+    const queryNorm = norm(queryVector);
+    if (queryNorm === 0) return [];
+
+    const matches: LexicalMatch[] = [];
+    this.vectors.forEach((vector, id) => {
+      let dot = 0;
+      queryVector.forEach((weight, term) => {
+        dot += weight * (vector.get(term) ?? 0);
+      });
+
+      const documentNorm = this.norms.get(id) ?? 0;
+      if (dot > 0 && documentNorm > 0) {
+        matches.push({ id, score: dot / (queryNorm * documentNorm) });
+      }
+    });
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  private weigh(counts: Map<string, number>): Map<string, number> {
+    const vector = new Map<string, number>();
+    counts.forEach((count, term) => {
+      const idf = this.idf.get(term);
+      // Terms the corpus has never seen can't match anything
+      if (idf !== undefined) {
+        vector.set(term, (1 + Math.log(count)) * idf);
+      }
+    });
+    return vector;
+  }
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+  return counts;
+}
+
+function norm(vector: Map<string, number>): number {
+  let sum = 0;
+  vector.forEach((weight) => {
+    sum += weight * weight;
+  });
+  return Math.sqrt(sum);
+}
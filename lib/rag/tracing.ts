@@ -0,0 +1,361 @@
+import fs from 'fs';
+import path from 'path';
+import { countTokens } from '@/lib/rag/chunker';
+import { parseNumber } from '@/lib/rag/config';
+import { chatCost, embeddingCost } from '@/lib/rag/pricing';
+import type { ChatCompletion, ChatMessage, ChatUsage, ToolCall, ToolDefinition } from '@/lib/rag/providers';
+import type { RetrievedChunk } from '@/lib/rag/types';
+import type { ChatStatsResponse, ChatTrace, ChatTraceOutcome, ChatTraceStage, LatencySummary } from '@/types/trace';
+
+// Tokens a chat message costs on top of its content (role and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Recent traces the stdout sink keeps in memory for /api/chat/stats
+const MAX_BUFFERED_TRACES = 1000;
+
+// Sources listed in the stats summary
+const TOP_SOURCES = 10;
+
+/**
+ * Prompt and completion tokens of one generation round, counted with the
+ * cl100k_base tokenizer for providers that don't report usage
+ */
+export function estimateUsage(
+  messages: ChatMessage[],
+  tools: ToolDefinition[],
+  completion: string,
+  calls: ToolCall[]
+): ChatUsage {
+  return {
+    promptTokens:
+      messages.reduce((sum, message) => sum + countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0) +
+      (tools.length > 0 ? countTokens(JSON.stringify(tools)) : 0),
+    completionTokens: countTokens(completion) + calls.reduce((sum, call) => sum + countTokens(call.name + call.arguments), 0),
+  };
+}
+
+export interface ChatTraceContext {
+  requestId: string;
+  sessionId?: string;
+  stream: boolean;
+  provider: string;
+  model: string;
+  embeddingModel: string;
+  query: string;
+}
+
+/**
+ * Collects what happens while one chat request is answered: stage
+ * latencies, retrieval results, tool calls and token usage
+ */
+export class ChatTraceRecorder {
+  private context: ChatTraceContext;
+  private now: () => number;
+  private startedAt: number;
+  private latencyMs: Partial<Record<ChatTraceStage, number>> = {};
+  private firstTokenMs?: number;
+  private rewrittenQuery?: string;
+  private retrievalMode?: ChatTrace['retrievalMode'];
+  private chunks: RetrievedChunk[] = [];
+  private toolCalls: string[] = [];
+  private usage: ChatUsage = { promptTokens: 0, completionTokens: 0 };
+  private tokensEstimated = false;
+  private embeddingTokens = 0;
+
+  constructor(context: ChatTraceContext, now: () => number = Date.now) {
+    this.context = context;
+    this.now = now;
+    this.startedAt = now();
+  }
+
+  /**
+   * Start timing a stage; call the returned function when it ends. Time
+   * spent in the same stage more than once adds up.
+   */
+  start(stage: ChatTraceStage): () => void {
+    const startedAt = this.now();
+    return () => {
+      this.latencyMs[stage] = (this.latencyMs[stage] ?? 0) + this.now() - startedAt;
+    };
+  }
+
+  async time<T>(stage: ChatTraceStage, fn: () => Promise<T>): Promise<T> {
+    const stop = this.start(stage);
+    try {
+      return await fn();
+    } finally {
+      stop();
+    }
+  }
+
+  /** Called for every answer token; only the first one is timed */
+  token(): void {
+    this.firstTokenMs ??= this.now() - this.startedAt;
+  }
+
+  rewritten(query: string): void {
+    this.rewrittenQuery = query;
+  }
+
+  retrieved(mode: NonNullable<ChatTrace['retrievalMode']>, chunks: RetrievedChunk[]): void {
+    this.retrievalMode = mode;
+    this.chunks = chunks;
+  }
+
+  calledTools(calls: ToolCall[]): void {
+    this.toolCalls.push(...calls.map((call) => call.name));
+  }
+
+  /** Usage of one generation round; `estimated` when counted locally */
+  used(usage: ChatUsage, estimated: boolean): void {
+    this.usage = {
+      promptTokens: this.usage.promptTokens + usage.promptTokens,
+      completionTokens: this.usage.completionTokens + usage.completionTokens,
+    };
+    this.tokensEstimated ||= estimated;
+  }
+
+  /** Usage of a one-off completion such as a query rewrite or rerank */
+  completed(messages: ChatMessage[], completion: ChatCompletion): void {
+    this.used(completion.usage ?? estimateUsage(messages, [], completion.content, []), !completion.usage);
+  }
+
+  /** Texts sent to the embedding model, counted with the same tokenizer it uses */
+  embedded(texts: string[]): void {
+    this.embeddingTokens += texts.reduce((sum, text) => sum + countTokens(text), 0);
+  }
+
+  finish(outcome: ChatTraceOutcome, details: { refused?: string; error?: string } = {}): ChatTrace {
+    const { requestId, sessionId, stream, provider, model, embeddingModel, query } = this.context;
+
+    return {
+      requestId,
+      ...(sessionId ? { sessionId } : {}),
+      timestamp: new Date(this.startedAt).toISOString(),
+      stream,
+      outcome,
+      ...details,
+      provider,
+      model,
+      query,
+      ...(this.rewrittenQuery !== undefined ? { rewrittenQuery: this.rewrittenQuery } : {}),
+      ...(this.retrievalMode ? { retrievalMode: this.retrievalMode } : {}),
+      chunks: this.chunks.map((chunk) => ({
+        id: chunk.id,
+        score: round(chunk.score, 4),
+        ...(chunk.metadata.source ? { source: String(chunk.metadata.source) } : {}),
+      })),
+      toolCalls: this.toolCalls,
+      promptTokens: this.usage.promptTokens,
+      completionTokens: this.usage.completionTokens,
+      tokensEstimated: this.tokensEstimated,
+      embeddingTokens: this.embeddingTokens,
+      costUsd: this.cost(),
+      latencyMs: { ...this.latencyMs, total: this.now() - this.startedAt },
+      ...(this.firstTokenMs !== undefined ? { firstTokenMs: this.firstTokenMs } : {}),
+    };
+  }
+
+  /** Chat and embedding spend; null when a model that was used has no listed price */
+  private cost(): number | null {
+    // A model that wasn't called cost nothing, priced or not
+    const chat = this.usage.promptTokens > 0 ? chatCost(this.context.model, this.usage) : 0;
+    const embedding = this.embeddingTokens > 0 ? embeddingCost(this.context.embeddingModel, this.embeddingTokens) : 0;
+    return chat === null || embedding === null ? null : chat + embedding;
+  }
+}
+
+/**
+ * Where chat traces go
+ */
+export interface ChatTraceSink {
+  record(trace: ChatTrace): Promise<void>;
+  /** Traces of requests started at or after `since`, oldest first */
+  read(since: Date): Promise<ChatTrace[]>;
+}
+
+/**
+ * One JSON line per trace on stdout, for log collectors. The most recent
+ * traces are also kept in memory so this process can report stats.
+ */
+export class StdoutTraceSink implements ChatTraceSink {
+  private recent: ChatTrace[] = [];
+
+  async record(trace: ChatTrace): Promise<void> {
+    console.log(JSON.stringify({ type: 'chat_trace', ...trace }));
+    this.recent.push(trace);
+    if (this.recent.length > MAX_BUFFERED_TRACES) {
+      this.recent.shift();
+    }
+  }
+
+  async read(since: Date): Promise<ChatTrace[]> {
+    return this.recent.filter((trace) => Date.parse(trace.timestamp) >= since.getTime());
+  }
+}
+
+/**
+ * Append-only JSONL file of traces. Once the file reaches `maxBytes` it is
+ * moved to `<file>.1`, replacing the previous one, so the traces kept and
+ * the work of reading them for stats stay bounded.
+ */
+export class FileTraceSink implements ChatTraceSink {
+  private filePath: string;
+  private maxBytes: number;
+
+  constructor(filePath: string, maxBytes: number) {
+    this.filePath = filePath;
+    this.maxBytes = maxBytes;
+  }
+
+  private get rotatedPath(): string {
+    return `${this.filePath}.1`;
+  }
+
+  async record(trace: ChatTrace): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const stat = await fs.promises.stat(this.filePath).catch(() => null);
+    if (stat && stat.size >= this.maxBytes) {
+      await fs.promises.rename(this.filePath, this.rotatedPath);
+    }
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(trace)}\n`);
+  }
+
+  async read(since: Date): Promise<ChatTrace[]> {
+    const files = await Promise.all([this.rotatedPath, this.filePath].map((file) => readIfExists(file)));
+
+    return files
+      .join('')
+      .split('\n')
+      .flatMap((line): ChatTrace[] => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line) as ChatTrace];
+        } catch {
+          // A line cut short by a crash shouldn't hide the rest
+          return [];
+        }
+      })
+      .filter((trace) => Date.parse(trace.timestamp) >= since.getTime());
+  }
+}
+
+function readIfExists(filePath: string): Promise<string> {
+  return fs.promises.readFile(filePath, 'utf-8').catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return '';
+    throw error;
+  });
+}
+
+let traceSink: ChatTraceSink | null | undefined;
+
+/**
+ * Shared trace sink picked from env: CHAT_TRACE_SINK=file (default, rotated
+ * at CHAT_TRACE_MAX_MB), stdout or off, in which case this returns null
+ */
+export function getChatTraceSink(env: NodeJS.ProcessEnv = process.env): ChatTraceSink | null {
+  if (traceSink !== undefined) return traceSink;
+
+  const kind = (env.CHAT_TRACE_SINK || 'file').toLowerCase();
+  switch (kind) {
+    case 'off':
+      traceSink = null;
+      break;
+    case 'stdout':
+      traceSink = new StdoutTraceSink();
+      break;
+    case 'file':
+      traceSink = new FileTraceSink(
+        path.resolve(process.cwd(), env.CHAT_TRACE_PATH || '.rag/chat-traces.jsonl'),
+        parseNumber(env.CHAT_TRACE_MAX_MB, 10) * 1024 * 1024
+      );
+      break;
+    default:
+      throw new Error(`Unknown CHAT_TRACE_SINK "${kind}". Expected file, stdout or off.`);
+  }
+  return traceSink;
+}
+
+function summarizeLatency(values: number[]): LatencySummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)] ?? 0;
+  return { p50: percentile(0.5), p95: percentile(0.95), max: sorted[sorted.length - 1] ?? 0 };
+}
+
+function countBy<K extends string>(keys: K[]): Partial<Record<K, number>> {
+  const counts: Partial<Record<K, number>> = {};
+  keys.forEach((key) => {
+    counts[key] = (counts[key] ?? 0) + 1;
+  });
+  return counts;
+}
+
+function round(value: number, decimals: number): number {
+  return Math.round(value * 10 ** decimals) / 10 ** decimals;
+}
+
+function ratio(count: number, total: number): number {
+  return total > 0 ? round(count / total, 3) : 0;
+}
+
+/**
+ * Request counts, latency percentiles, token totals, spend and retrieval
+ * health over a set of traces
+ */
+export function summarizeTraces(traces: ChatTrace[], since: Date, until: Date): ChatStatsResponse {
+  const stages = Array.from(new Set(traces.flatMap((trace) => Object.keys(trace.latencyMs)))).filter(
+    (stage): stage is ChatTraceStage => stage !== 'total'
+  );
+  const firstTokens = traces.flatMap((trace) => (trace.firstTokenMs !== undefined ? [trace.firstTokenMs] : []));
+
+  const answered = traces.filter((trace) => trace.outcome === 'answered');
+  const totalCost = traces.reduce((sum, trace) => sum + (trace.costUsd ?? 0), 0);
+
+  const retrievals = traces.filter((trace) => trace.retrievalMode);
+  // TF-IDF scores aren't comparable with fused vector scores, so only hybrid retrievals count
+  const topScores = retrievals
+    .filter((trace) => trace.retrievalMode === 'hybrid' && trace.chunks.length > 0)
+    .map((trace) => trace.chunks[0].score);
+  // Each request counts once per source, however many of its chunks were retrieved
+  const sources = countBy(
+    traces.flatMap((trace) => Array.from(new Set(trace.chunks.flatMap((chunk) => chunk.source ?? []))))
+  );
+
+  return {
+    since: since.toISOString(),
+    until: until.toISOString(),
+    requests: traces.length,
+    outcomes: countBy(traces.map((trace) => trace.outcome)),
+    cacheHitRate: ratio(traces.filter((trace) => trace.outcome === 'cached').length, traces.length),
+    latencyMs: {
+      ...summarizeLatency(traces.map((trace) => trace.latencyMs.total)),
+      stages: Object.fromEntries(
+        stages.map((stage) => [
+          stage,
+          summarizeLatency(traces.flatMap((trace) => trace.latencyMs[stage] ?? [])),
+        ])
+      ),
+    },
+    firstTokenMs: firstTokens.length > 0 ? summarizeLatency(firstTokens) : null,
+    tokens: {
+      prompt: traces.reduce((sum, trace) => sum + trace.promptTokens, 0),
+      completion: traces.reduce((sum, trace) => sum + trace.completionTokens, 0),
+      embedding: traces.reduce((sum, trace) => sum + trace.embeddingTokens, 0),
+    },
+    costUsd: {
+      total: round(totalCost, 6),
+      perAnsweredRequest: answered.length > 0 ? round(totalCost / answered.length, 6) : 0,
+      unpricedRequests: traces.filter((trace) => trace.costUsd === null).length,
+    },
+    models: countBy(traces.map((trace) => trace.model)) as Record<string, number>,
+    retrieval: {
+      fallbackRate: ratio(retrievals.filter((trace) => trace.retrievalMode === 'fallback').length, retrievals.length),
+      averageTopScore:
+        topScores.length > 0 ? round(topScores.reduce((sum, score) => sum + score, 0) / topScores.length, 4) : null,
+      topSources: Object.entries(sources)
+        .map(([source, hits]) => ({ source, count: hits ?? 0 }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_SOURCES),
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import type { GuardrailCategory } from '@/lib/rag/guardrails';
+import type { VectorMetadata } from '@/lib/rag/vector-store';
+import type { ChatSource } from '@/types/chat';
+
+/**
+ * A chunk of context picked by retrieval, with the metadata it was ingested with
+ */
+export interface RetrievedChunk {
+  id: string;
+  text: string;
+  score: number;
+  metadata: VectorMetadata;
+}
+
+/**
+ * Identifies a chat request in its trace
+ */
+export interface QueryOptions {
+  /** Generated when not given */
+  requestId?: string;
+  sessionId?: string;
+}
+
+export interface RAGAnswer {
+  answer: string;
+  sources: ChatSource[];
+  /** Set when a guardrail replaced the answer with a refusal */
+  refused?: GuardrailCategory;
+  /** Set when the answer came from the answer cache */
+  cached?: boolean;
+}
+
+export interface IngestOptions {
+  /**
+   * Group of documents this run covers, e.g. 'website' or 'documents'.
+   * Stale-chunk cleanup only touches chunks previously ingested under the same scope.
+   */
+  scope?: string;
+  /**
+   * Sources (file names) whose stored chunks must survive stale cleanup,
+   * e.g. files that failed to load in this run
+   */
+  preserveSources?: string[];
+  /** Called after every embedding batch, whether it succeeded or failed */
+  onProgress?: (progress: IngestionProgress) => void;
+}
+
+export interface IngestionProgress {
+  scope: string;
+  /** Chunks that need embedding in this run */
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+export interface IngestionResult {
+  /** Unique chunks in this run */
+  total: number;
+  upserted: number;
+  /** Unchanged chunks that were already in the store */
+  skipped: number;
+  /** Chunks removed because they no longer exist */
+  deleted: number;
+  /** Chunks whose batch still failed after retries; re-running resumes them */
+  failed: number;
+  errors: string[];
+}
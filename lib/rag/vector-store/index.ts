@@ -0,0 +1,52 @@
+import path from 'path';
+import { LocalVectorStore } from './local-store';
+import { PineconeVectorStore } from './pinecone-store';
+import type { VectorMetadata, VectorStore } from './types';
+
+export type { VectorDocument, VectorMatch, VectorMetadata, VectorMetadataValue, VectorQueryOptions, VectorRecord, VectorStore } from './types';
+export { LocalVectorStore, cosineSimilarity } from './local-store';
+export { PineconeVectorStore } from './pinecone-store';
+
+export type VectorStoreKind = 'pinecone' | 'local' | 'none';
+
+/**
+ * Pick the vector store from env config.
+ *
+ * VECTOR_STORE=pinecone|local|none selects a backend explicitly. When unset,
+ * Pinecone is used if PINECONE_API_KEY is present, otherwise no store is
+ * configured and the RAG service runs in fallback mode.
+ */
+export function createVectorStore(env: NodeJS.ProcessEnv = process.env): VectorStore | null {
+  const kind = (env.VECTOR_STORE || (env.PINECONE_API_KEY ? 'pinecone' : 'none')).toLowerCase() as VectorStoreKind;
+
+  switch (kind) {
+    case 'pinecone':
+      if (!env.PINECONE_API_KEY) {
+        throw new Error('VECTOR_STORE=pinecone requires PINECONE_API_KEY');
+      }
+      return new PineconeVectorStore(env.PINECONE_API_KEY, env.PINECONE_INDEX_NAME || 'portfolio-chatbot');
+    case 'local':
+      return new LocalVectorStore(
+        path.resolve(process.cwd(), env.LOCAL_VECTOR_STORE_PATH || '.rag/vector-store.json')
+      );
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown VECTOR_STORE "${kind}". Expected pinecone, local or none.`);
+  }
+}
+
+/**
+ * Drop metadata values vector stores cannot hold (undefined, null, nested objects)
+ */
+export function toVectorMetadata(metadata: Record<string, any>): VectorMetadata {
+  const result: VectorMetadata = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      result[key] = value;
+    } else if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
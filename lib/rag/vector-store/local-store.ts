@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import type { VectorDocument, VectorMatch, VectorQueryOptions, VectorRecord, VectorStore } from './types';
+
+interface LocalStoreFile {
+  version: 1;
+  records: VectorRecord[];
+}
+
+/**
+ * Vector store persisted to a single JSON file on disk.
+ * Search is a brute-force cosine similarity scan, which is plenty for a
+ * portfolio-sized corpus and needs no external service.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local';
+  readonly location: string;
+  private filePath: string;
+  private records: Map<string, VectorRecord> | null = null;
+  private loadedMtimeMs = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.location = `local:${filePath}`;
+  }
+
+  /**
+   * The records, re-read when another process (e.g. `npm run ingest-docs`)
+   * has rewritten the file since it was last loaded
+   */
+  private load(): Map<string, VectorRecord> {
+    const stat = fs.statSync(this.filePath, { throwIfNoEntry: false });
+    if (this.records && (stat?.mtimeMs ?? 0) === this.loadedMtimeMs) {
+      return this.records;
+    }
+
+    this.records = new Map();
+    if (stat) {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as LocalStoreFile;
+      data.records.forEach((record) => this.records!.set(record.id, record));
+    }
+    this.loadedMtimeMs = stat?.mtimeMs ?? 0;
+    return this.records;
+  }
+
+  private persist(): void {
+    const data: LocalStoreFile = { version: 1, records: Array.from(this.load().values()) };
+
+    // Write to a temp file first so a crash never leaves a truncated store behind
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, this.filePath);
+    // Our own write shouldn't trigger a reload
+    this.loadedMtimeMs = fs.statSync(this.filePath).mtimeMs;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const store = this.load();
+    records.forEach((record) => store.set(record.id, record));
+    this.persist();
+  }
+
+  async query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const matches: VectorMatch[] = [];
+
+    for (const record of Array.from(this.load().values())) {
+      if (options.filter && !matchesFilter(record, options.filter)) continue;
+      matches.push({
+        id: record.id,
+        score: cosineSimilarity(vector, record.values),
+        metadata: record.metadata,
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, options.topK);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const store = this.load();
+    let changed = false;
+    ids.forEach((id) => {
+      changed = store.delete(id) || changed;
+    });
+    if (changed) this.persist();
+  }
+
+  async fetch(ids: string[]): Promise<VectorDocument[]> {
+    const store = this.load();
+    return ids
+      .map((id) => store.get(id))
+      .filter((record): record is VectorRecord => Boolean(record))
+      .map((record) => ({ id: record.id, metadata: record.metadata }));
+  }
+
+  async list(prefix?: string): Promise<string[]> {
+    const ids = Array.from(this.load().keys());
+    return prefix ? ids.filter((id) => id.startsWith(prefix)) : ids;
+  }
+}
+
+function matchesFilter(record: VectorRecord, filter: NonNullable<VectorQueryOptions['filter']>): boolean {
+  return Object.entries(filter).every(([key, value]) => record.metadata[key] === value);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -0,0 +1,73 @@
+import { Pinecone, type Index } from '@pinecone-database/pinecone';
+import type { VectorDocument, VectorMatch, VectorQueryOptions, VectorRecord, VectorStore } from './types';
+
+/**
+ * Vector store backed by a Pinecone index
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = 'pinecone';
+  readonly location: string;
+  private index: Index;
+
+  constructor(apiKey: string, indexName: string) {
+    this.location = `pinecone:${indexName}`;
+    const pinecone = new Pinecone({ apiKey });
+    this.index = pinecone.index(indexName);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.index.upsert(records);
+  }
+
+  async query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]> {
+    const results = await this.index.query({
+      vector,
+      topK: options.topK,
+      filter: options.filter,
+      includeMetadata: true,
+    });
+
+    return (results.matches ?? []).map((match) => ({
+      id: match.id,
+      score: match.score ?? 0,
+      metadata: match.metadata ?? {},
+    }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    // Pinecone caps deleteMany at 1000 ids per request
+    for (let i = 0; i < ids.length; i += 1000) {
+      await this.index.deleteMany(ids.slice(i, i + 1000));
+    }
+  }
+
+  async fetch(ids: string[]): Promise<VectorDocument[]> {
+    const documents: VectorDocument[] = [];
+
+    // Keep requests small, fetch ids travel in the query string
+    for (let i = 0; i < ids.length; i += 100) {
+      const response = await this.index.fetch(ids.slice(i, i + 100));
+      Object.values(response.records).forEach((record) => {
+        documents.push({ id: record.id, metadata: record.metadata ?? {} });
+      });
+    }
+
+    return documents;
+  }
+
+  async list(prefix?: string): Promise<string[]> {
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await this.index.listPaginated({ prefix, paginationToken });
+      page.vectors?.forEach((vector) => {
+        if (vector.id) ids.push(vector.id);
+      });
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    return ids;
+  }
+}
@@ -0,0 +1,42 @@
+export type VectorMetadataValue = string | number | boolean | string[];
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: VectorMetadata;
+}
+
+/** A stored record without its embedding */
+export interface VectorDocument {
+  id: string;
+  metadata: VectorMetadata;
+}
+
+export interface VectorQueryOptions {
+  topK: number;
+  /** Exact-match metadata filter, e.g. { type: 'project' } */
+  filter?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Minimal contract every vector store backend has to fulfil
+ */
+export interface VectorStore {
+  readonly name: string;
+  /** Identifies the concrete index or file, e.g. pinecone:portfolio-chatbot */
+  readonly location: string;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(vector: number[], options: VectorQueryOptions): Promise<VectorMatch[]>;
+  delete(ids: string[]): Promise<void>;
+  /** Fetch stored records by id; unknown ids are skipped */
+  fetch(ids: string[]): Promise<VectorDocument[]>;
+  /** List stored record ids, optionally restricted to an id prefix */
+  list(prefix?: string): Promise<string[]>;
+}
@@ -1,5 +1,11 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Loads instrumentation.ts, which checks required secrets at startup
+    instrumentationHook: true,
+    // pdf-parse loads pdf.js and its worker at runtime, which webpack cannot bundle
+    serverComponentsExternalPackages: ['pdf-parse'],
+  },
   images: {
     formats: ['image/avif', 'image/webp'],
     domains: ['localhost'],
@@ -0,0 +1,50 @@
+/**
+ * Guardrail Check Script
+ *
+ * Runs the canned cases in evals/guardrail-cases.json through the guardrail
+ * classifier. Needs no API keys or vector store.
+ *
+ * Usage:
+ *   npm run check-guardrails
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Guardrails, PROMPT_CANARY, type GuardrailCategory } from '../lib/rag/guardrails';
+import type { ChatHistoryMessage } from '../types/chat';
+
+interface GuardrailCase {
+  id: string;
+  input?: string;
+  output?: string;
+  history?: ChatHistoryMessage[];
+  expect: GuardrailCategory | 'allowed';
+}
+
+function main() {
+  const casesPath = path.join(process.cwd(), 'evals', 'guardrail-cases.json');
+  const { cases } = JSON.parse(fs.readFileSync(casesPath, 'utf-8')) as { cases: GuardrailCase[] };
+  const guardrails = new Guardrails({ enabled: true });
+
+  let failures = 0;
+  for (const testCase of cases) {
+    const verdict = testCase.output !== undefined
+      ? guardrails.checkOutput(testCase.output.replace('{{CANARY}}', PROMPT_CANARY))
+      : guardrails.checkInput(testCase.input ?? '', testCase.history);
+    const actual = verdict.allowed ? 'allowed' : verdict.category;
+
+    if (actual === testCase.expect) {
+      console.log(`✅ ${testCase.id}`);
+    } else {
+      failures++;
+      console.log(`❌ ${testCase.id}: expected ${testCase.expect}, got ${actual}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} guardrail cases passed`);
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,66 @@
+/**
+ * Job Fit Check Script
+ *
+ * Runs the canned job descriptions in evals/job-fit-cases.json through the
+ * skill matcher behind POST /api/chat/fit. Needs no API keys: the matching
+ * is deterministic.
+ *
+ * Usage:
+ *   npm run check-job-fit
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { analyzeJobFit } from '../lib/chat/job-fit';
+import type { FitSkill } from '../types/fit';
+
+interface JobFitCase {
+  id: string;
+  jobDescription: string;
+  /** Skill names; a leading "?" means the skill is a nice-to-have */
+  matched?: string[];
+  gaps?: string[];
+  absent?: string[];
+  minScore?: number;
+  maxScore?: number;
+}
+
+function label(skill: FitSkill): string {
+  return skill.required ? skill.skill : `?${skill.skill}`;
+}
+
+function main() {
+  const casesPath = path.join(process.cwd(), 'evals', 'job-fit-cases.json');
+  const { cases } = JSON.parse(fs.readFileSync(casesPath, 'utf-8')) as { cases: JobFitCase[] };
+
+  let failures = 0;
+  for (const testCase of cases) {
+    const report = analyzeJobFit(testCase.jobDescription);
+    const matched = report.matched.map(label);
+    const gaps = report.gaps.map(label);
+    const extracted = [...report.matched, ...report.gaps].map((skill) => skill.skill);
+
+    const problems = [
+      ...(testCase.matched ?? []).filter((skill) => !matched.includes(skill)).map((skill) => `${skill} not matched`),
+      ...(testCase.gaps ?? []).filter((skill) => !gaps.includes(skill)).map((skill) => `${skill} not a gap`),
+      ...(testCase.absent ?? []).filter((skill) => extracted.includes(skill)).map((skill) => `${skill} extracted`),
+      ...(testCase.minScore !== undefined && report.score < testCase.minScore ? [`score ${report.score} < ${testCase.minScore}`] : []),
+      ...(testCase.maxScore !== undefined && report.score > testCase.maxScore ? [`score ${report.score} > ${testCase.maxScore}`] : []),
+    ];
+
+    if (problems.length === 0) {
+      console.log(`✅ ${testCase.id}`);
+    } else {
+      failures++;
+      console.log(`❌ ${testCase.id}: ${problems.join('; ')}`);
+      console.log(`   matched: ${matched.join(', ') || '-'}  gaps: ${gaps.join(', ') || '-'}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} job fit cases passed`);
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -1,77 +1,263 @@
 /**
  * Document Ingestion Script
- * 
+ *
  * This script processes documents and ingests them into the vector store.
- * 
+ * It runs the same pipeline as POST /api/ingest, in the foreground.
+ *
  * Usage:
  *   npm run ingest-docs
- * 
- * Or with custom directory:
+ *
+ * Or for a single source (website, documents or files):
+ *   npm run ingest-docs -- --source documents
+ *
+ * Or with a custom documents directory, or only some files:
  *   npm run ingest-docs -- --dir /path/to/documents
+ *   npm run ingest-docs -- --only "*.md"
+ *
+ * Preview chunks and embedding cost without embedding anything:
+ *   npm run ingest-docs -- --dry-run
+ *   npm run ingest-docs -- inspect documents/devcontext-project.md
  */
 
-import { DocumentProcessor } from '../lib/rag/document-processor';
-import { RAGService } from '../lib/rag/rag-service';
-import { contentData } from '../lib/data';
 import path from 'path';
+import { parseArgs } from 'util';
+import { getIngestAuditLog } from '../lib/api/audit-log';
+import { countTokens } from '../lib/rag/chunker';
+import { loadRagConfig } from '../lib/rag/config';
+import { DocumentProcessor, SUPPORTED_EXTENSIONS, type ProcessedDocument } from '../lib/rag/document-processor';
+import {
+  INGESTION_SOURCES,
+  ingestionOutcome,
+  loadIngestionSource,
+  resolveIngestionSources,
+  runIngestionPipeline,
+  sumStages,
+  type IngestionPipelineOptions,
+} from '../lib/rag/ingestion-pipeline';
+import { EMBEDDING_PRICES } from '../lib/rag/pricing';
+import type { IngestionSource, IngestionStageProgress } from '../types/ingest';
 
-async function main() {
-  console.log('🚀 Starting document ingestion...\n');
+const STAGE_LABELS: Record<IngestionSource, string> = {
+  website: '📊 Website data',
+  documents: '📄 ./documents directory',
+  files: '📋 Resume files (public/files)',
+};
 
-  try {
-    // Initialize services
-    const processor = new DocumentProcessor();
-    const ragService = RAGService.getInstance();
-
-    const allDocuments = [];
-
-    // 1. Process structured data from the website
-    console.log('📊 Processing website data...');
-    const structuredDocs = processor.processStructuredData(contentData, 'website');
-    allDocuments.push(...structuredDocs);
-    console.log(`✅ Processed ${structuredDocs.length} documents from website data\n`);
-
-    // 2. Process documents from the documents directory (if exists)
-    const docsDir = path.join(process.cwd(), 'documents');
-    try {
-      console.log('📄 Looking for documents in ./documents directory...');
-      const fileDocs = await processor.processDirectory(docsDir);
-      allDocuments.push(...fileDocs);
-      console.log(`✅ Processed ${fileDocs.length} documents from files\n`);
-    } catch (error) {
-      console.log('ℹ️  No documents directory found or empty. Skipping file processing.\n');
-    }
+interface CliOptions {
+  command: 'ingest' | 'dry-run' | 'inspect';
+  /** File to inspect */
+  file?: string;
+  source: IngestionSource | 'all';
+  pipeline: IngestionPipelineOptions;
+}
+
+function parseCli(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      source: { type: 'string', default: 'all' },
+      dir: { type: 'string' },
+      only: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  const source = values.source!;
+  if (source !== 'all' && !INGESTION_SOURCES.includes(source as IngestionSource)) {
+    throw new Error(`Unknown --source "${source}". Expected one of: ${[...INGESTION_SOURCES, 'all'].join(', ')}`);
+  }
 
-    // 3. Process resume PDFs from public/files
-    const filesDir = path.join(process.cwd(), 'public', 'files');
-    try {
-      console.log('📋 Processing resume files...');
-      const resumeDocs = await processor.processDirectory(filesDir);
-      allDocuments.push(...resumeDocs);
-      console.log(`✅ Processed ${resumeDocs.length} documents from resume files\n`);
-    } catch (error) {
-      console.log('ℹ️  Could not process resume files.\n');
+  const [command, file, ...rest] = positionals;
+  if (command !== undefined && command !== 'inspect') {
+    throw new Error(`Unknown command "${command}". Expected "inspect <file>" or no command.`);
+  }
+  if (command === 'inspect' && (!file || rest.length > 0)) {
+    throw new Error('Usage: npm run ingest-docs -- inspect <file>');
+  }
+
+  return {
+    command: command === 'inspect' ? 'inspect' : values['dry-run'] ? 'dry-run' : 'ingest',
+    file,
+    source: source as IngestionSource | 'all',
+    pipeline: { documentsDir: values.dir, only: values.only },
+  };
+}
+
+function formatCost(tokens: number): string {
+  const { provider, model } = loadRagConfig().embeddings;
+  if (provider === 'stub') return 'free (stub embeddings)';
+
+  const price = EMBEDDING_PRICES[model];
+  if (price === undefined) return `unknown (no price listed for ${model})`;
+  const cost = (tokens / 1_000_000) * price;
+  const amount = cost > 0 && cost < 0.0001 ? '< $0.0001' : `$${cost.toFixed(4)}`;
+  return `${amount} with ${model} at $${price} per 1M tokens`;
+}
+
+/**
+ * Chunk counts and token sizes per file, without embedding anything
+ */
+async function dryRun(sources: IngestionSource[], options: IngestionPipelineOptions) {
+  const processor = new DocumentProcessor();
+  let totalChunks = 0;
+  let totalTokens = 0;
+
+  for (const source of sources) {
+    const report = await loadIngestionSource(processor, source, options);
+    console.log(`${STAGE_LABELS[source]}${source === 'documents' && options.documentsDir ? ` (${options.documentsDir})` : ''}`);
+
+    const byFile = new Map<string, number[]>();
+    report.documents.forEach((document) => {
+      const tokens = byFile.get(document.metadata.source) ?? [];
+      tokens.push(countTokens(document.text));
+      byFile.set(document.metadata.source, tokens);
+    });
+
+    if (byFile.size === 0) {
+      console.log('   (nothing to ingest)');
+    } else {
+      const width = Math.max(...Array.from(byFile.keys()).map((file) => file.length), 4);
+      console.log(`   ${'File'.padEnd(width)}  Chunks  Avg tok  Max tok  Tokens`);
+      byFile.forEach((tokens, file) => {
+        const sum = tokens.reduce((total, count) => total + count, 0);
+        console.log(
+          `   ${file.padEnd(width)}  ${String(tokens.length).padStart(6)}  ${String(Math.round(sum / tokens.length)).padStart(7)}  ${String(Math.max(...tokens)).padStart(7)}  ${String(sum).padStart(6)}`
+        );
+        totalChunks += tokens.length;
+        totalTokens += sum;
+      });
     }
 
-    // 4. Ingest all documents into vector store
-    if (allDocuments.length === 0) {
-      console.log('⚠️  No documents to ingest. Add documents to the ./documents directory.\n');
+    report.skippedFiles.forEach((file) => console.log(`   ℹ️  Would skip unsupported file ${file}`));
+    report.failedFiles.forEach(({ file, error }) => console.log(`   ⚠️  Could not load ${file}: ${error}`));
+    console.log('');
+  }
+
+  const { chunking } = loadRagConfig();
+  console.log(`Chunking: ${chunking.strategy}, ${chunking.chunkSize} tokens, ${chunking.chunkOverlap} overlap`);
+  console.log(`Total: ${totalChunks} chunks, ${totalTokens} tokens`);
+  console.log(`Estimated cost of a full re-embed: ${formatCost(totalTokens)}`);
+  console.log('Unchanged chunks are skipped on a real run, so incremental runs cost less.');
+}
+
+/**
+ * Print every chunk of one file with its metadata
+ */
+async function inspect(file: string) {
+  const documents: ProcessedDocument[] | null = await new DocumentProcessor().processFile(path.resolve(file));
+  if (!documents) {
+    throw new Error(`Unsupported file type "${path.extname(file)}". Expected one of: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+  }
+
+  documents.forEach((document, index) => {
+    console.log(`── Chunk ${index + 1}/${documents.length} · ${countTokens(document.text)} tokens ──`);
+    console.log(JSON.stringify(document.metadata));
+    console.log(`${document.text}\n`);
+  });
+
+  console.log(`${documents.length} chunks from ${file}`);
+}
+
+function logStage(stage: IngestionStageProgress) {
+  const label = STAGE_LABELS[stage.source];
+
+  switch (stage.status) {
+    case 'loading':
+      console.log(`${label}: loading...`);
+      break;
+    case 'embedding':
+      if (stage.toEmbed === 0) {
+        console.log(`   ${stage.documents} chunks loaded`);
+      } else {
+        const done = stage.upserted + stage.failed;
+        console.log(`   ${done}/${stage.toEmbed} chunks embedded${stage.failed ? ` (${stage.failed} failed)` : ''}`);
+      }
+      break;
+    case 'completed':
+      console.log(`✅ ${label}: ${stage.upserted} embedded, ${stage.skipped} unchanged, ${stage.deleted} stale removed${stage.failed ? `, ${stage.failed} failed` : ''}`);
+      stage.skippedFiles.forEach((file) => console.log(`   ℹ️  Skipped unsupported file ${file}`));
+      stage.failedFiles.forEach(({ file, error }) => console.log(`   ⚠️  Could not load ${file}: ${error}`));
+      console.log('');
+      break;
+    case 'failed':
+      console.log(`❌ ${label}: ${stage.errors.join('; ')}\n`);
+      break;
+  }
+}
+
+async function main() {
+  let cli: CliOptions;
+  try {
+    cli = parseCli(process.argv.slice(2));
+
+    if (cli.command === 'inspect') {
+      await inspect(cli.file!);
       return;
     }
+    if (cli.command === 'dry-run') {
+      console.log('🔎 Dry run: loading and chunking documents, nothing is embedded\n');
+      await dryRun(resolveIngestionSources(cli.source), cli.pipeline);
+      return;
+    }
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  console.log('🚀 Starting document ingestion...\n');
+  if (cli.pipeline.documentsDir) console.log(`📁 Documents directory: ${cli.pipeline.documentsDir}\n`);
+  if (cli.pipeline.only) console.log(`🔍 Only files matching "${cli.pipeline.only}"\n`);
+
+  const auditLog = getIngestAuditLog();
+  const startedAt = Date.now();
+
+  try {
+    const sources = resolveIngestionSources(cli.source);
+    const stages = await runIngestionPipeline(sources, {
+      ...cli.pipeline,
+      onStageUpdate: (stage) => logStage(stage),
+    });
 
-    console.log(`📥 Ingesting ${allDocuments.length} total documents into vector store...`);
-    await ragService.ingestDocuments(allDocuments);
-    console.log('✅ Successfully ingested all documents!\n');
+    const { documents, failedFiles, ...totals } = sumStages(stages);
+    const outcome = ingestionOutcome(stages);
+
+    await auditLog.record({
+      trigger: 'cli',
+      outcome: outcome === 'completed' ? 'success' : outcome,
+      durationMs: Date.now() - startedAt,
+      documents,
+      ...totals,
+      error: stages.flatMap((stage) => stage.errors)[0],
+    });
+
+    if (outcome !== 'completed') {
+      console.log(`⚠️  Some sources, files or chunks failed to ingest. Run the script again to resume; stored chunks are skipped.\n`);
+      process.exitCode = 1;
+    } else {
+      console.log('✅ Successfully ingested all documents!\n');
+    }
 
     console.log('🎉 Document ingestion complete!');
     console.log(`\nSummary:`);
-    console.log(`  - Total documents processed: ${allDocuments.length}`);
-    console.log(`  - Vector store updated successfully`);
+    console.log(`  - Total chunks processed: ${documents}`);
+    console.log(`  - New or changed chunks embedded: ${totals.upserted}`);
+    console.log(`  - Unchanged chunks skipped: ${totals.skipped}`);
+    console.log(`  - Stale chunks removed: ${totals.deleted}`);
+    console.log(`  - Failed chunks: ${totals.failed}`);
+    console.log(`  - Files that could not be loaded: ${failedFiles}`);
     console.log(`\nYou can now use the chatbot to query this information! 🤖\n`);
 
   } catch (error) {
     console.error('❌ Error during ingestion:', error);
-    
+
+    await auditLog.record({
+      trigger: 'cli',
+      outcome: 'failed',
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
     if (error instanceof Error) {
       if (error.message.includes('PINECONE_API_KEY')) {
         console.error('\n💡 Make sure to set PINECONE_API_KEY in your .env.local file');
@@ -79,11 +265,10 @@ async function main() {
         console.error('\n💡 Make sure to set OPENAI_API_KEY in your .env.local file');
       }
     }
-    
+
     process.exit(1);
   }
 }
 
 // Run the script
 main();
-
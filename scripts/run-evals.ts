@@ -0,0 +1,158 @@
+/**
+ * RAG Evaluation Script
+ *
+ * Runs the golden questions in evals/golden-set.json through RAGService and
+ * scores retrieval recall@k, answer fact coverage and refusal correctness.
+ * Every run writes a JSON report so prompt, chunking and retrieval changes
+ * can be compared against an earlier run.
+ *
+ * Usage:
+ *   npm run eval
+ *
+ * Offline, with stub providers and a local vector store under .rag/eval
+ * (documents are ingested into it first):
+ *   npm run eval -- --offline
+ *
+ * Compare with an earlier report:
+ *   npm run eval -- --compare .rag/evals/<report>.json
+ *
+ * Other flags: --k <n> (default RETRIEVAL_TOP_K), --out <file>, --set <file>, --case <id>
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { loadRagConfig } from '../lib/rag/config';
+import {
+  compareReports,
+  runEvalCase,
+  summarize,
+  type EvalCaseResult,
+  type EvalReport,
+  type EvalSet,
+} from '../lib/rag/evaluation';
+import { INGESTION_SOURCES, ingestionOutcome, runIngestionPipeline } from '../lib/rag/ingestion-pipeline';
+import { RAGService } from '../lib/rag/rag-service';
+
+// Stub chat and embeddings with a local store kept apart from the real one
+const OFFLINE_ENV = {
+  LLM_PROVIDER: 'stub',
+  EMBEDDING_PROVIDER: 'stub',
+  VECTOR_STORE: 'local',
+  LOCAL_VECTOR_STORE_PATH: '.rag/eval/vector-store.json',
+  RAG_MANIFEST_PATH: '.rag/eval/ingest-manifest.json',
+};
+
+function percent(value: number | null): string {
+  return value === null ? '   -' : `${Math.round(value * 100)}%`.padStart(4);
+}
+
+function signed(value: number): string {
+  const points = Math.round(value * 100);
+  return `${points >= 0 ? '+' : ''}${points} pts`;
+}
+
+function logCase(result: EvalCaseResult) {
+  const passed = result.recall !== 0 && result.missingFacts.length === 0 && result.refusalCorrect;
+  const facts = result.factCoverage === null ? '' : `  facts ${result.coveredFacts.length}/${result.coveredFacts.length + result.missingFacts.length}`;
+  const refusal = result.refusalCorrect ? '' : `  refusal wrong (${result.refused ?? 'answered'})`;
+
+  console.log(`${passed ? '✅' : '⚠️ '} ${result.id.padEnd(24)} recall ${percent(result.recall)}${facts}${refusal}`);
+  if (result.missingFacts.length > 0) console.log(`   missing: ${result.missingFacts.join(', ')}`);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      offline: { type: 'boolean', default: false },
+      k: { type: 'string' },
+      out: { type: 'string' },
+      set: { type: 'string', default: path.join('evals', 'golden-set.json') },
+      case: { type: 'string' },
+      compare: { type: 'string' },
+    },
+  });
+
+  // Score freshly generated answers, never ones cached by an earlier run,
+  // and keep eval questions out of the chat traces
+  process.env.ANSWER_CACHE = 'off';
+  process.env.CHAT_TRACE_SINK = 'off';
+
+  if (values.offline) {
+    Object.assign(process.env, OFFLINE_ENV);
+    console.log('📦 Offline run: ingesting into the eval store with stub embeddings...');
+    const stages = await runIngestionPipeline(INGESTION_SOURCES);
+    if (ingestionOutcome(stages) !== 'completed') {
+      console.warn('⚠️  Some sources failed to ingest; scores may be lower than they should be.');
+    }
+    console.log('');
+  }
+
+  const evalSet = JSON.parse(fs.readFileSync(path.resolve(values.set!), 'utf-8')) as EvalSet;
+  const cases = values.case ? evalSet.cases.filter((testCase) => testCase.id === values.case) : evalSet.cases;
+  if (cases.length === 0) {
+    throw new Error(`No case with id "${values.case}" in ${values.set}`);
+  }
+
+  const config = loadRagConfig();
+  const k = values.k ? Number(values.k) : config.retrieval.topK;
+  const ragService = RAGService.getInstance();
+
+  console.log(`🧪 Running ${cases.length} cases from ${values.set} (version ${evalSet.version}), recall@${k}\n`);
+
+  const results: EvalCaseResult[] = [];
+  for (const testCase of cases) {
+    const result = await runEvalCase(ragService, testCase, k);
+    results.push(result);
+    logCase(result);
+  }
+
+  const report: EvalReport = {
+    evalSetVersion: evalSet.version,
+    createdAt: new Date().toISOString(),
+    k,
+    config: {
+      chatProvider: config.chat.provider,
+      chatModel: config.chat.model,
+      chatTools: config.chat.tools,
+      embeddingProvider: config.embeddings.provider,
+      embeddingModel: config.embeddings.model,
+      vectorStore: process.env.VECTOR_STORE || (process.env.PINECONE_API_KEY ? 'pinecone' : 'none'),
+      retrieval: config.retrieval,
+      chunking: config.chunking,
+      guardrails: config.guardrails.enabled,
+    },
+    metrics: summarize(results),
+    cases: results,
+  };
+
+  const outPath = path.resolve(
+    values.out ?? path.join('.rag', 'evals', `${report.createdAt.replace(/[:.]/g, '-')}-${config.chat.provider}.json`)
+  );
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify(report, null, 2));
+
+  const { metrics } = report;
+  console.log(`\nRecall@${k}:        ${percent(metrics.recallAtK)}`);
+  console.log(`Fact coverage:    ${percent(metrics.factCoverage)}`);
+  console.log(`Refusal accuracy: ${percent(metrics.refusalAccuracy)}`);
+  console.log(`\n📄 Report written to ${path.relative(process.cwd(), outPath)}`);
+
+  if (values.compare) {
+    const baseline = JSON.parse(fs.readFileSync(path.resolve(values.compare), 'utf-8')) as EvalReport;
+    if (baseline.evalSetVersion !== report.evalSetVersion || baseline.k !== report.k) {
+      console.warn(`\n⚠️  Baseline used eval set v${baseline.evalSetVersion} with k=${baseline.k}; scores may not be comparable.`);
+    }
+
+    const { deltas, regressions } = compareReports(baseline, report);
+    console.log(`\nCompared with ${values.compare}:`);
+    console.log(`  Recall@${k}: ${signed(deltas.recallAtK)}, fact coverage: ${signed(deltas.factCoverage)}, refusal accuracy: ${signed(deltas.refusalAccuracy)}`);
+    regressions.forEach(({ id, reasons }) => console.log(`  ⚠️  ${id}: ${reasons.join('; ')}`));
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Eval run failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
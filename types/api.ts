@@ -0,0 +1,14 @@
+export interface ApiValidationIssue {
+  /** Dotted path to the offending field, e.g. conversationHistory.2.role */
+  path: string;
+  message: string;
+}
+
+/**
+ * Shape of every error response from the API routes
+ */
+export interface ApiErrorResponse {
+  error: string;
+  details?: string;
+  issues?: ApiValidationIssue[];
+}
@@ -0,0 +1,89 @@
+import type { FitReport } from '@/types/fit';
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatHistoryMessage {
+  role: ChatRole;
+  content: string;
+}
+
+/** Portfolio sections that can be opened in the DetailModal via `?modal=section:id` */
+export type CitableSection = 'apps' | 'experience' | 'education';
+
+/**
+ * Where a piece of an answer came from
+ */
+export interface ChatSource {
+  /** Kind of content, e.g. project, experience, about, pdf, markdown */
+  type: string;
+  /** Origin of the chunk: 'website' for lib/data.ts or the file name */
+  source: string;
+  title: string;
+  section?: CitableSection;
+  itemId?: string;
+  /** Heading breadcrumb inside the document, e.g. "DevContext > Architecture > Sync" */
+  headingPath?: string;
+  /** Pages of a PDF the chunk came from */
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+/**
+ * A message as kept in server-side session storage
+ */
+export interface StoredChatMessage extends ChatHistoryMessage {
+  id: string;
+  /** ISO timestamp */
+  timestamp: string;
+  sources?: ChatSource[];
+  /** Set on the answer to a job description pasted into the fit analysis */
+  fit?: FitReport;
+}
+
+export interface ChatSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredChatMessage[];
+}
+
+/**
+ * Events sent by POST /api/chat when streaming is requested
+ * (`stream: true` in the body or `Accept: text/event-stream`)
+ */
+export type ChatStreamEvent =
+  /** `cached` is set when the answer that follows comes from the answer cache */
+  | { type: 'sources'; sources: ChatSource[]; cached?: boolean }
+  | { type: 'token'; content: string }
+  | { type: 'done'; timestamp: string }
+  | { type: 'error'; error: string };
+
+/**
+ * Body of POST /api/chat
+ */
+export interface ChatRequest {
+  message: string;
+  /** Only used without a session; with one the server keeps the history */
+  conversationHistory?: ChatHistoryMessage[];
+  sessionId?: string;
+  /** Answer with Server-Sent Events instead of one JSON response */
+  stream?: boolean;
+}
+
+export interface ChatResponse {
+  response: string;
+  sources: ChatSource[];
+  sessionId?: string;
+  /** Set when the answer came from the answer cache */
+  cached?: boolean;
+  timestamp: string;
+}
+
+/**
+ * Response of GET /api/chat/sessions/:id
+ */
+export interface ChatSessionResponse {
+  sessionId: string;
+  messages: StoredChatMessage[];
+  updatedAt: string;
+}
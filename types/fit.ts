@@ -0,0 +1,40 @@
+import type { ChatSource } from '@/types/chat';
+
+/**
+ * A skill asked for by a job description
+ */
+export interface FitSkill {
+  /** Canonical name, e.g. "PostgreSQL" for "Postgres" */
+  skill: string;
+  /** False when it only appears under "nice to have", "preferred" or similar */
+  required: boolean;
+}
+
+export interface FitSkillMatch extends FitSkill {
+  /** Projects, roles and skill lists that show the skill */
+  evidence: ChatSource[];
+}
+
+/**
+ * How well the portfolio covers a job description
+ */
+export interface FitReport {
+  matched: FitSkillMatch[];
+  gaps: FitSkill[];
+  /** Share of required skills that are matched, from 0 to 1 */
+  score: number;
+  pitch: string;
+}
+
+/**
+ * Body of POST /api/chat/fit
+ */
+export interface FitRequest {
+  jobDescription: string;
+  /** Saves the analysis to this chat session, like a chat turn */
+  sessionId?: string;
+}
+
+export interface FitResponse extends FitReport {
+  timestamp: string;
+}
@@ -0,0 +1,71 @@
+/**
+ * What an ingestion job covers: portfolio data from lib/data.ts, the
+ * documents/ folder, or the resume files in public/files
+ */
+export type IngestionSource = 'website' | 'documents' | 'files';
+
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'partial' | 'failed';
+
+export type IngestionStageStatus = 'pending' | 'loading' | 'embedding' | 'completed' | 'failed';
+
+export interface IngestionFileError {
+  file: string;
+  error: string;
+}
+
+/**
+ * Progress of one source within a job
+ */
+export interface IngestionStageProgress {
+  source: IngestionSource;
+  status: IngestionStageStatus;
+  /** Chunks produced by loading the source */
+  documents: number;
+  /** New or changed chunks that need embedding */
+  toEmbed: number;
+  upserted: number;
+  /** Unchanged chunks that were already stored */
+  skipped: number;
+  /** Stale chunks removed from the store */
+  deleted: number;
+  /** Chunks that failed to embed or store */
+  failed: number;
+  /** Files ignored because their type is not supported */
+  skippedFiles: string[];
+  /** Files that could not be read or parsed */
+  failedFiles: IngestionFileError[];
+  errors: string[];
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface IngestionJob {
+  id: string;
+  status: IngestionJobStatus;
+  sources: IngestionSource[];
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Last time the job was saved; a running job refreshes it while it works */
+  updatedAt?: string;
+  stages: IngestionStageProgress[];
+  error?: string;
+}
+
+/**
+ * Body of POST /api/ingest. Credentials go in headers, never in the body.
+ */
+export interface IngestRequest {
+  /** Defaults to 'all' */
+  source?: IngestionSource | 'all';
+}
+
+/**
+ * 202 response of POST /api/ingest
+ */
+export interface IngestJobAccepted {
+  jobId: string;
+  status: IngestionJobStatus;
+  /** Poll this for progress */
+  statusUrl: string;
+}
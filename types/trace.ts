@@ -0,0 +1,78 @@
+/**
+ * How a chat request ended: answered by the model or from the answer cache,
+ * refused by a guardrail, answered with the not-configured message, failed,
+ * or abandoned by the client mid-stream
+ */
+export type ChatTraceOutcome = 'answered' | 'cached' | 'refused' | 'unconfigured' | 'error' | 'aborted';
+
+export type ChatTraceStage = 'guardrails' | 'cache' | 'rewrite' | 'retrieval' | 'generation';
+
+export interface ChatTraceChunk {
+  id: string;
+  score: number;
+  source?: string;
+}
+
+/**
+ * One chat request, as written to the trace sink
+ */
+export interface ChatTrace {
+  requestId: string;
+  sessionId?: string;
+  timestamp: string;
+  stream: boolean;
+  outcome: ChatTraceOutcome;
+  /** Guardrail category, for refused requests */
+  refused?: string;
+  error?: string;
+  provider: string;
+  model: string;
+  query: string;
+  /** The standalone query retrieval searched with, after resolving follow-ups */
+  rewrittenQuery?: string;
+  /** 'fallback' when TF-IDF over the static data stood in for the vector store */
+  retrievalMode?: 'hybrid' | 'fallback';
+  chunks: ChatTraceChunk[];
+  toolCalls: string[];
+  /** Chat model tokens: query rewrite, LLM rerank and answer generation over all tool rounds */
+  promptTokens: number;
+  completionTokens: number;
+  /** True when the provider didn't report usage and tokens were counted locally */
+  tokensEstimated: boolean;
+  /** Tokens of questions embedded for retrieval or the answer cache */
+  embeddingTokens: number;
+  /** USD of chat and embedding calls; null when a model used has no listed price */
+  costUsd: number | null;
+  latencyMs: Partial<Record<ChatTraceStage, number>> & { total: number };
+  /** Streams only: time until the first answer token was sent */
+  firstTokenMs?: number;
+}
+
+export interface LatencySummary {
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+/**
+ * Response of GET /api/chat/stats: traces of the last `hours` summarized
+ */
+export interface ChatStatsResponse {
+  since: string;
+  until: string;
+  requests: number;
+  outcomes: Partial<Record<ChatTraceOutcome, number>>;
+  /** Share of requests answered from the answer cache */
+  cacheHitRate: number;
+  latencyMs: LatencySummary & { stages: Partial<Record<ChatTraceStage, LatencySummary>> };
+  firstTokenMs: LatencySummary | null;
+  tokens: { prompt: number; completion: number; embedding: number };
+  costUsd: { total: number; perAnsweredRequest: number; unpricedRequests: number };
+  models: Record<string, number>;
+  retrieval: {
+    /** Share of retrievals that fell back to the static data */
+    fallbackRate: number;
+    averageTopScore: number | null;
+    topSources: { source: string; count: number }[];
+  };
+}